@@ -0,0 +1,255 @@
+/**
+ * Batched inserts of JavaScript rows into a table.
+ */
+import type { Connection, Database, Statement } from "./duckdb-async";
+import { BulkInsertError, DuckDbAsyncError } from "./errors";
+import { sql, SqlQuery } from "./sql";
+
+export interface AppenderOptions {
+  /**
+   * Columns to insert into. Defaults to the keys of the first row appended
+   * if it is an object, or to all columns of the table, in order, if it is
+   * an array.
+   */
+  columns?: string[];
+  /** Number of rows inserted by each INSERT statement. Defaults to 1000. */
+  batchSize?: number;
+}
+
+/**
+ * A row to insert: an object keyed by column name (missing columns are
+ * inserted as NULL), or an array of values in column order.
+ */
+export type InsertRow = Record<string, unknown> | readonly unknown[];
+
+/*
+ * Convert a value to one the DuckDb NodeJS API binds faithfully: it binds
+ * BigInts as NULL and objects as "[object Object]", so BigInts are passed as
+ * strings and nested objects and arrays as JSON text, which DuckDb casts to
+ * the column's type.
+ */
+function coerceValue(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (
+    value === null ||
+    typeof value !== "object" ||
+    value instanceof Date ||
+    Buffer.isBuffer(value)
+  ) {
+    return value;
+  }
+  return JSON.stringify(value, (_key, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+}
+
+/**
+ * Buffers rows and inserts them in batches, each with a single multi-row
+ * INSERT statement, so every batch is inserted atomically.
+ * Create one with `Connection.createAppender()` or
+ * `Database.createAppender()`, and `close()` it when done.
+ */
+export class Appender {
+  private readonly batchSize: number;
+  private columns: string[] | null;
+  private width: number | null = null;
+  private rows: unknown[][] = [];
+  // the rows buffered in `rows`, as they were appended
+  private appended: InsertRow[] = [];
+  private batchStatement: Statement | null = null;
+  private inserted = 0;
+  private queue: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  private constructor(
+    private target: Connection | Database,
+    private table: SqlQuery,
+    options: AppenderOptions
+  ) {
+    this.batchSize = options.batchSize ?? 1000;
+    this.columns = options.columns ?? null;
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      throw new DuckDbAsyncError(
+        `Appender.create: invalid batch size ${this.batchSize}`,
+        "Appender.create"
+      );
+    }
+    if (this.columns) {
+      this.width = this.columns.length;
+    }
+  }
+
+  /**
+   * create an Appender inserting into `table` through `target`.
+   * This is intended for internal use only, and should not be called directly.
+   * Use `Connection.createAppender()` or `Database.createAppender()` instead.
+   */
+  static create_internal(
+    target: Connection | Database,
+    table: string | string[],
+    options: AppenderOptions = {}
+  ): Appender {
+    return new Appender(target, sql.identifier(table), options);
+  }
+
+  /** Number of rows inserted so far. */
+  get insertedCount(): number {
+    return this.inserted;
+  }
+
+  /** Number of rows appended but not yet inserted. */
+  get pendingCount(): number {
+    return this.rows.length;
+  }
+
+  /**
+   * Buffer a row for insertion, inserting the buffered rows once a full
+   * batch has been appended.
+   */
+  async append(row: InsertRow): Promise<void> {
+    if (this.closed) {
+      throw new DuckDbAsyncError(
+        "Appender.append: appender is closed",
+        "Appender.append"
+      );
+    }
+    this.rows.push(this.rowValues(row));
+    this.appended.push(row);
+    if (this.rows.length >= this.batchSize) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Insert all buffered rows.
+   * @returns `Promise` that resolves to the number of rows inserted
+   */
+  flush(): Promise<number> {
+    const rows = this.rows.splice(0);
+    const appended = this.appended.splice(0);
+    const run = this.queue.then(() => this.insertRows(rows, appended));
+    this.queue = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
+
+  /**
+   * Insert all buffered rows and release the appender's resources.
+   * @returns `Promise` that resolves to the total number of rows inserted
+   */
+  async close(): Promise<number> {
+    if (this.closed) {
+      return this.inserted;
+    }
+    try {
+      await this.flush();
+    } finally {
+      this.closed = true;
+      if (this.batchStatement) {
+        await this.batchStatement.finalize();
+        this.batchStatement = null;
+      }
+    }
+    return this.inserted;
+  }
+
+  /**
+   * Release the appender's resources without inserting the buffered rows,
+   * e.g. after appending a row failed. Batches already inserted are kept.
+   * @returns `Promise` that resolves to the discarded rows
+   */
+  async discard(): Promise<InsertRow[]> {
+    this.closed = true;
+    const discarded = this.appended.splice(0);
+    this.rows.splice(0);
+    await this.queue;
+    if (this.batchStatement) {
+      await this.batchStatement.finalize();
+      this.batchStatement = null;
+    }
+    return discarded;
+  }
+
+  private rowValues(row: InsertRow): unknown[] {
+    if (Array.isArray(row)) {
+      this.width ??= row.length;
+      if (row.length !== this.width) {
+        throw new DuckDbAsyncError(
+          `Appender.append: expected ${this.width} values, got ${row.length}`,
+          "Appender.append"
+        );
+      }
+      return row.map(coerceValue);
+    }
+    if (!this.columns) {
+      if (this.width !== null) {
+        throw new DuckDbAsyncError(
+          "Appender.append: rows must be arrays when appending to all columns",
+          "Appender.append"
+        );
+      }
+      this.columns = Object.keys(row);
+      this.width = this.columns.length;
+    }
+    const values = row as Record<string, unknown>;
+    return this.columns.map((column) => coerceValue(values[column]));
+  }
+
+  private async insertRows(
+    rows: unknown[][],
+    appended: InsertRow[]
+  ): Promise<number> {
+    const before = this.inserted;
+    for (let i = 0; i < rows.length; i += this.batchSize) {
+      const batch = rows.slice(i, i + this.batchSize);
+      try {
+        await this.insertBatch(batch);
+      } catch (err) {
+        throw new BulkInsertError(
+          `Appender.flush: inserting a batch of ${batch.length} rows failed: ${
+            err instanceof Error ? err.message : String(err)
+          }`,
+          "Appender.flush",
+          this.inserted,
+          appended.slice(i),
+          err
+        );
+      }
+      this.inserted += batch.length;
+    }
+    return this.inserted - before;
+  }
+
+  private async insertBatch(batch: unknown[][]): Promise<void> {
+    const values = batch.flat();
+    if (batch.length === this.batchSize) {
+      this.batchStatement ??= await this.target.prepare(
+        this.insertQuery(batch.length)
+      );
+      await this.batchStatement.run(...values);
+      return;
+    }
+    const stmt = await this.target.prepare(this.insertQuery(batch.length));
+    try {
+      await stmt.run(...values);
+    } finally {
+      await stmt.finalize();
+    }
+  }
+
+  private insertQuery(rowCount: number): string {
+    const columns = this.columns
+      ? ` (${sql.join(this.columns.map((c) => sql.identifier(c))).text})`
+      : "";
+    const row = `(${new Array<string>(this.width ?? 0).fill("?").join(", ")})`;
+    const rows = new Array<string>(rowCount).fill(row).join(", ");
+    return `INSERT INTO ${this.table.text}${columns} VALUES ${rows}`;
+  }
+}
@@ -0,0 +1,952 @@
+/**
+ * Encoding and decoding of rows in the Arrow IPC stream format, used to
+ * bulk load registered tables and to transfer results from worker threads.
+ * Only the types needed for the values of the DuckDb NodeJS API are
+ * supported.
+ */
+import type { ColumnInfo, TypeInfo } from "duckdb";
+
+/** The Arrow data type of a column, and how its values are represented. */
+export type ArrowType =
+  | { id: "null" }
+  | { id: "bool" }
+  /** Integers of up to 32 bits as numbers, 64-bit integers as BigInts. */
+  | { id: "int"; bitWidth: 8 | 16 | 32 | 64; signed: boolean }
+  | { id: "float"; bitWidth: 32 | 64 }
+  /** 128 or 256-bit decimals, as BigInts if their scale is 0. */
+  | { id: "decimal"; precision: number; scale: number; bitWidth: 128 | 256 }
+  | { id: "utf8" }
+  /** Binary values, as Buffers. */
+  | { id: "binary" }
+  /** Dates, as `Date`s at midnight UTC. */
+  | { id: "date" }
+  /** Millisecond timestamps, as `Date`s. */
+  | { id: "timestamp"; timezone: string | null }
+  /** Month, day and nanosecond intervals, as `{ months, days, micros }`. */
+  | { id: "interval" }
+  | { id: "list"; child: ArrowField }
+  | { id: "struct"; children: ArrowField[] };
+
+export interface ArrowField {
+  name: string;
+  type: ArrowType;
+}
+
+type Row = Record<string, unknown>;
+
+// type ids of the Arrow schema's Type union
+const TYPE_IDS = {
+  null: 1,
+  int: 2,
+  float: 3,
+  binary: 4,
+  utf8: 5,
+  bool: 6,
+  decimal: 7,
+  date: 8,
+  timestamp: 10,
+  interval: 11,
+  list: 12,
+  struct: 13,
+} as const;
+
+// header type ids of the Arrow IPC Message union
+const SCHEMA_MESSAGE = 1;
+const RECORD_BATCH_MESSAGE = 3;
+// MetadataVersion.V5
+const METADATA_VERSION = 4;
+const CONTINUATION = 0xffffffff;
+const MS_PER_DAY = 86_400_000;
+
+/*
+ * A flatbuffer object: a table of (optional) fields, a string, a vector of
+ * objects, or a vector of structs given as their bytes.
+ */
+type FlatObject =
+  | { kind: "table"; fields: (FlatField | undefined)[] }
+  | { kind: "string"; value: string }
+  | { kind: "vector"; items: FlatObject[] }
+  | { kind: "structs"; count: number; bytes: Uint8Array };
+
+type FlatField =
+  | { kind: "int8" | "int16" | "int32"; value: number }
+  | { kind: "int64"; value: bigint }
+  | FlatObject;
+
+const table = (...fields: (FlatField | undefined)[]): FlatObject => ({
+  kind: "table",
+  fields,
+});
+const int8 = (value: number): FlatField => ({ kind: "int8", value });
+const int16 = (value: number): FlatField => ({ kind: "int16", value });
+const int32 = (value: number): FlatField => ({ kind: "int32", value });
+const int64 = (value: number): FlatField => ({
+  kind: "int64",
+  value: BigInt(value),
+});
+
+function fieldSize(field: FlatField): number {
+  switch (field.kind) {
+    case "int8":
+      return 1;
+    case "int16":
+      return 2;
+    case "int64":
+      return 8;
+    default:
+      // int32, or the offset of an object
+      return 4;
+  }
+}
+
+/*
+ * Writes a flatbuffer front to back: every object is written before the
+ * objects it refers to, so all offsets point forward as uoffset_t requires.
+ */
+class FlatWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private size = 0;
+
+  private alloc(length: number, align: number): number {
+    const position = Math.ceil(this.size / align) * align;
+    const end = position + length;
+    if (end > this.bytes.length) {
+      const bytes = new Uint8Array(Math.max(end, this.bytes.length * 2));
+      bytes.set(this.bytes);
+      this.bytes = bytes;
+      this.view = new DataView(bytes.buffer);
+    }
+    this.size = end;
+    return position;
+  }
+
+  private offset(slot: number, target: number): void {
+    this.view.setUint32(slot, target - slot, true);
+  }
+
+  private write(object: FlatObject): number {
+    switch (object.kind) {
+      case "string": {
+        const text = Buffer.from(object.value, "utf8");
+        const position = this.alloc(4 + text.length + 1, 4);
+        this.view.setUint32(position, text.length, true);
+        this.bytes.set(text, position + 4);
+        return position;
+      }
+      case "vector": {
+        const position = this.alloc(4 + 4 * object.items.length, 4);
+        this.view.setUint32(position, object.items.length, true);
+        object.items.forEach((item, i) =>
+          this.offset(position + 4 + 4 * i, this.write(item))
+        );
+        return position;
+      }
+      case "structs": {
+        // the structs (of 64-bit integers) follow the length, 8-byte aligned
+        this.alloc(0, 4);
+        if (this.size % 8 === 0) {
+          this.alloc(4, 1);
+        }
+        const position = this.alloc(4 + object.bytes.length, 1);
+        this.view.setUint32(position, object.count, true);
+        this.bytes.set(object.bytes, position + 4);
+        return position;
+      }
+      case "table":
+        return this.writeTable(object.fields);
+    }
+  }
+
+  private writeTable(fields: (FlatField | undefined)[]): number {
+    // lay out the fields after the vtable offset, largest first
+    const offsets = new Array<number>(fields.length).fill(0);
+    let tableSize = 4;
+    const order = fields
+      .map((field, i) => ({ field, i }))
+      .filter(({ field }) => field !== undefined)
+      .sort((a, b) => fieldSize(b.field!) - fieldSize(a.field!));
+    for (const { field, i } of order) {
+      const size = fieldSize(field!);
+      tableSize = Math.ceil(tableSize / size) * size;
+      offsets[i] = tableSize;
+      tableSize += size;
+    }
+    const vtable = this.alloc(4 + 2 * fields.length, 2);
+    this.view.setUint16(vtable, 4 + 2 * fields.length, true);
+    this.view.setUint16(vtable + 2, tableSize, true);
+    offsets.forEach((offset, i) =>
+      this.view.setUint16(vtable + 4 + 2 * i, offset, true)
+    );
+    const position = this.alloc(tableSize, 8);
+    this.view.setInt32(position, position - vtable, true);
+    for (const { field, i } of order) {
+      const at = position + offsets[i];
+      const value = field!;
+      switch (value.kind) {
+        case "int8":
+          this.view.setInt8(at, value.value);
+          break;
+        case "int16":
+          this.view.setInt16(at, value.value, true);
+          break;
+        case "int32":
+          this.view.setInt32(at, value.value, true);
+          break;
+        case "int64":
+          this.view.setBigInt64(at, value.value, true);
+          break;
+        default:
+          this.offset(at, this.write(value));
+      }
+    }
+    return position;
+  }
+
+  /* The flatbuffer with root table `root`. */
+  static finish(root: FlatObject): Uint8Array {
+    const writer = new FlatWriter();
+    const slot = writer.alloc(4, 4);
+    writer.offset(slot, writer.write(root));
+    return writer.bytes.subarray(0, writer.size);
+  }
+}
+
+/* Reads the tables, strings and vectors of a flatbuffer. */
+class FlatReader {
+  constructor(private readonly view: DataView) {}
+
+  root(): number {
+    return this.view.getUint32(0, true);
+  }
+
+  // position of field `index` of the table at `position`, or null if absent
+  field(position: number, index: number): number | null {
+    const vtable = position - this.view.getInt32(position, true);
+    const vtableSize = this.view.getUint16(vtable, true);
+    const slot = 4 + 2 * index;
+    const offset =
+      slot < vtableSize ? this.view.getUint16(vtable + slot, true) : 0;
+    return offset === 0 ? null : position + offset;
+  }
+
+  int(position: number, index: number, bits: 8 | 16 | 32, missing = 0) {
+    const at = this.field(position, index);
+    if (at === null) {
+      return missing;
+    }
+    return bits === 8
+      ? this.view.getInt8(at)
+      : bits === 16
+      ? this.view.getInt16(at, true)
+      : this.view.getInt32(at, true);
+  }
+
+  int64(position: number, index: number): number {
+    const at = this.field(position, index);
+    return at === null ? 0 : Number(this.view.getBigInt64(at, true));
+  }
+
+  // position of the object field `index` refers to, or null if absent
+  object(position: number, index: number): number | null {
+    const at = this.field(position, index);
+    return at === null ? null : at + this.view.getUint32(at, true);
+  }
+
+  string(position: number, index: number): string | null {
+    const at = this.object(position, index);
+    if (at === null) {
+      return null;
+    }
+    const length = this.view.getUint32(at, true);
+    const start = this.view.byteOffset + at + 4;
+    return Buffer.from(this.view.buffer, start, length).toString("utf8");
+  }
+
+  // positions of the objects of the vector field `index`
+  objects(position: number, index: number): number[] {
+    const at = this.object(position, index);
+    if (at === null) {
+      return [];
+    }
+    const length = this.view.getUint32(at, true);
+    return Array.from({ length }, (_, i) => {
+      const slot = at + 4 + 4 * i;
+      return slot + this.view.getUint32(slot, true);
+    });
+  }
+
+  // the 64-bit integers of the vector of structs field `index`
+  structs(position: number, index: number, width: number): number[][] {
+    const at = this.object(position, index);
+    if (at === null) {
+      return [];
+    }
+    const length = this.view.getUint32(at, true);
+    return Array.from({ length }, (_, i) =>
+      Array.from({ length: width }, (_, j) =>
+        Number(this.view.getBigInt64(at + 4 + 8 * (width * i + j), true))
+      )
+    );
+  }
+}
+
+/*
+ * The Arrow field for a column of the SQL type `type`, whose values the
+ * DuckDb NodeJS API returns as described in its convert_col_val(): types
+ * it does not convert are returned as strings.
+ */
+export function arrowField(name: string, type: TypeInfo): ArrowField {
+  return { name, type: arrowType(type) };
+}
+
+function arrowType(type: TypeInfo): ArrowType {
+  switch (type.id) {
+    case "BOOLEAN":
+      return { id: "bool" };
+    case "TINYINT":
+      return { id: "int", bitWidth: 8, signed: true };
+    case "SMALLINT":
+      return { id: "int", bitWidth: 16, signed: true };
+    case "INTEGER":
+      return { id: "int", bitWidth: 32, signed: true };
+    case "BIGINT":
+      return { id: "int", bitWidth: 64, signed: true };
+    case "UTINYINT":
+      return { id: "int", bitWidth: 8, signed: false };
+    case "USMALLINT":
+      return { id: "int", bitWidth: 16, signed: false };
+    case "UINTEGER":
+      return { id: "int", bitWidth: 32, signed: false };
+    case "UBIGINT":
+      return { id: "int", bitWidth: 64, signed: false };
+    case "HUGEINT":
+    case "UHUGEINT":
+      return { id: "decimal", precision: 39, scale: 0, bitWidth: 256 };
+    case "FLOAT":
+      return { id: "float", bitWidth: 32 };
+    case "DOUBLE":
+    case "DECIMAL":
+      return { id: "float", bitWidth: 64 };
+    case "INTERVAL":
+      return { id: "interval" };
+    case "DATE":
+      return { id: "date" };
+    case "TIMESTAMP":
+    case "TIMESTAMP_S":
+    case "TIMESTAMP_MS":
+    case "TIMESTAMP_NS":
+      return { id: "timestamp", timezone: null };
+    case "TIMESTAMP WITH TIME ZONE":
+      return { id: "timestamp", timezone: "UTC" };
+    case "BLOB":
+      return { id: "binary" };
+    case "SQLNULL":
+      return { id: "null" };
+    case "LIST":
+      return "child" in type
+        ? { id: "list", child: arrowField("item", type.child) }
+        : { id: "utf8" };
+    case "STRUCT":
+      return "children" in type
+        ? {
+            id: "struct",
+            children: type.children.map((child: ColumnInfo) =>
+              arrowField(child.name, child.type)
+            ),
+          }
+        : { id: "utf8" };
+    default:
+      return { id: "utf8" };
+  }
+}
+
+function typeTable(type: ArrowType): FlatObject {
+  switch (type.id) {
+    case "int":
+      return table(int32(type.bitWidth), int8(type.signed ? 1 : 0));
+    case "float":
+      // Precision.SINGLE or DOUBLE
+      return table(int16(type.bitWidth === 32 ? 1 : 2));
+    case "decimal":
+      return table(
+        int32(type.precision),
+        int32(type.scale),
+        int32(type.bitWidth)
+      );
+    case "date":
+      // DateUnit.DAY
+      return table(int16(0));
+    case "timestamp":
+      // TimeUnit.MILLISECOND
+      return table(
+        int16(1),
+        type.timezone === null
+          ? undefined
+          : { kind: "string", value: type.timezone }
+      );
+    case "interval":
+      // IntervalUnit.MONTH_DAY_NANO
+      return table(int16(2));
+    default:
+      return table();
+  }
+}
+
+function fieldTable(field: ArrowField): FlatObject {
+  const { type } = field;
+  const children =
+    type.id === "list"
+      ? [type.child]
+      : type.id === "struct"
+      ? type.children
+      : [];
+  return table(
+    { kind: "string", value: field.name },
+    int8(1),
+    int8(TYPE_IDS[type.id]),
+    typeTable(type),
+    undefined,
+    { kind: "vector", items: children.map(fieldTable) }
+  );
+}
+
+
+/* An IPC message with the metadata `header` and body `body`. */
+function message(
+  headerType: number,
+  header: FlatObject,
+  body: Uint8Array[]
+): Uint8Array {
+  const bodyLength = body.reduce((sum, buffer) => sum + buffer.length, 0);
+  const metadata = FlatWriter.finish(
+    table(
+      int16(METADATA_VERSION),
+      int8(headerType),
+      header,
+      int64(bodyLength)
+    )
+  );
+  const padded = Math.ceil(metadata.length / 8) * 8;
+  const bytes = new Uint8Array(8 + padded + bodyLength);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, CONTINUATION, true);
+  view.setInt32(4, padded, true);
+  bytes.set(metadata, 8);
+  let offset = 8 + padded;
+  for (const buffer of body) {
+    bytes.set(buffer, offset);
+    offset += buffer.length;
+  }
+  return bytes;
+}
+
+/* The field nodes and buffers of a record batch, as they are encoded. */
+interface BatchBuilder {
+  nodes: [length: number, nullCount: number][];
+  buffers: Uint8Array[];
+}
+
+function bitmap(length: number, bit: (i: number) => boolean): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(length / 8));
+  for (let i = 0; i < length; i++) {
+    if (bit(i)) {
+      bytes[i >> 3] |= 1 << (i & 7);
+    }
+  }
+  return bytes;
+}
+
+function bytesOf(array: ArrayBufferView): Uint8Array {
+  return new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+}
+
+// write `value` as a two's complement integer of `width` bytes
+function writeWideInt(
+  view: DataView,
+  at: number,
+  width: number,
+  value: bigint
+): void {
+  let rest = BigInt.asUintN(8 * width, value);
+  for (let i = 0; i < width; i += 8) {
+    view.setBigUint64(at + i, BigInt.asUintN(64, rest), true);
+    rest >>= 64n;
+  }
+}
+
+function readWideInt(view: DataView, at: number, width: number): bigint {
+  let value = 0n;
+  for (let i = width - 8; i >= 0; i -= 8) {
+    value = (value << 64n) | view.getBigUint64(at + i, true);
+  }
+  return BigInt.asIntN(8 * width, value);
+}
+
+const isNull = (value: unknown) => value === null || value === undefined;
+
+function encodeColumn(
+  batch: BatchBuilder,
+  type: ArrowType,
+  values: readonly unknown[]
+): void {
+  const length = values.length;
+  const nullCount = values.filter(isNull).length;
+  batch.nodes.push([length, type.id === "null" ? length : nullCount]);
+  if (type.id === "null") {
+    return;
+  }
+  batch.buffers.push(
+    nullCount === 0
+      ? new Uint8Array(0)
+      : bitmap(length, (i) => !isNull(values[i]))
+  );
+  switch (type.id) {
+    case "bool":
+      batch.buffers.push(bitmap(length, (i) => values[i] === true));
+      return;
+    case "int": {
+      if (type.bitWidth === 64) {
+        const ints = values.map((v) =>
+          isNull(v) ? 0n : BigInt(v as bigint | number | string)
+        );
+        batch.buffers.push(
+          bytesOf(
+            type.signed ? BigInt64Array.from(ints) : BigUint64Array.from(ints)
+          )
+        );
+        return;
+      }
+      const ints = values.map((v) => Number(v ?? 0));
+      const typed = {
+        8: () => (type.signed ? Int8Array : Uint8Array).from(ints),
+        16: () => (type.signed ? Int16Array : Uint16Array).from(ints),
+        32: () => (type.signed ? Int32Array : Uint32Array).from(ints),
+      }[type.bitWidth]();
+      batch.buffers.push(bytesOf(typed));
+      return;
+    }
+    case "float": {
+      const floats = values.map((v) => Number(v ?? 0));
+      batch.buffers.push(
+        bytesOf(
+          type.bitWidth === 32
+            ? Float32Array.from(floats)
+            : Float64Array.from(floats)
+        )
+      );
+      return;
+    }
+    case "decimal": {
+      const width = type.bitWidth / 8;
+      const bytes = new Uint8Array(width * length);
+      const view = new DataView(bytes.buffer);
+      values.forEach((v, i) => {
+        if (!isNull(v)) {
+          const unscaled =
+            typeof v === "bigint"
+              ? v
+              : BigInt(Math.round(Number(v) * 10 ** type.scale));
+          writeWideInt(view, width * i, width, unscaled);
+        }
+      });
+      batch.buffers.push(bytes);
+      return;
+    }
+    case "utf8":
+    case "binary": {
+      const data = values.map((v) =>
+        isNull(v)
+          ? Buffer.alloc(0)
+          : v instanceof Uint8Array
+          ? v
+          : Buffer.from(String(v), "utf8")
+      );
+      const offsets = new Int32Array(length + 1);
+      data.forEach((bytes, i) => (offsets[i + 1] = offsets[i] + bytes.length));
+      batch.buffers.push(bytesOf(offsets), Buffer.concat(data));
+      return;
+    }
+    case "date": {
+      const days = Int32Array.from(values, (v) =>
+        v instanceof Date ? Math.floor(v.getTime() / MS_PER_DAY) : 0
+      );
+      batch.buffers.push(bytesOf(days));
+      return;
+    }
+    case "timestamp": {
+      const ms = BigInt64Array.from(values, (v) =>
+        v instanceof Date ? BigInt(v.getTime()) : 0n
+      );
+      batch.buffers.push(bytesOf(ms));
+      return;
+    }
+    case "interval": {
+      const bytes = new Uint8Array(16 * length);
+      const view = new DataView(bytes.buffer);
+      values.forEach((v, i) => {
+        if (!isNull(v)) {
+          const { months, days, micros } = v as Record<string, number>;
+          view.setInt32(16 * i, months, true);
+          view.setInt32(16 * i + 4, days, true);
+          view.setBigInt64(16 * i + 8, BigInt(micros) * 1000n, true);
+        }
+      });
+      batch.buffers.push(bytes);
+      return;
+    }
+    case "list": {
+      const offsets = new Int32Array(length + 1);
+      const items: unknown[] = [];
+      values.forEach((v, i) => {
+        if (Array.isArray(v)) {
+          items.push(...v);
+        }
+        offsets[i + 1] = items.length;
+      });
+      batch.buffers.push(bytesOf(offsets));
+      encodeColumn(batch, type.child.type, items);
+      return;
+    }
+    case "struct":
+      for (const child of type.children) {
+        encodeColumn(
+          batch,
+          child.type,
+          values.map((v) => (isNull(v) ? null : (v as Row)[child.name]))
+        );
+      }
+      return;
+  }
+}
+
+/**
+ * Encode `rows` as an Arrow IPC stream with the columns `fields`: one
+ * buffer per message, a schema, a record batch of all rows, and the
+ * end-of-stream marker. Each buffer has an `ArrayBuffer` of its own, so it
+ * can be transferred to another thread.
+ */
+export function encodeArrowIPC(
+  fields: readonly ArrowField[],
+  rows: readonly Row[]
+): Uint8Array[] {
+  const schema = message(
+    SCHEMA_MESSAGE,
+    // Endianness.Little
+    table(int16(0), { kind: "vector", items: fields.map(fieldTable) }),
+    []
+  );
+  const batch: BatchBuilder = { nodes: [], buffers: [] };
+  for (const field of fields) {
+    encodeColumn(
+      batch,
+      field.type,
+      rows.map((row) => row[field.name])
+    );
+  }
+  const nodes = new DataView(new ArrayBuffer(16 * batch.nodes.length));
+  batch.nodes.forEach(([length, nullCount], i) => {
+    nodes.setBigInt64(16 * i, BigInt(length), true);
+    nodes.setBigInt64(16 * i + 8, BigInt(nullCount), true);
+  });
+  // buffers are 8-byte aligned within the body
+  const layout = new DataView(new ArrayBuffer(16 * batch.buffers.length));
+  const body: Uint8Array[] = [];
+  let offset = 0;
+  batch.buffers.forEach((buffer, i) => {
+    layout.setBigInt64(16 * i, BigInt(offset), true);
+    layout.setBigInt64(16 * i + 8, BigInt(buffer.length), true);
+    const padded = Math.ceil(buffer.length / 8) * 8;
+    body.push(buffer, new Uint8Array(padded - buffer.length));
+    offset += padded;
+  });
+  const records = message(
+    RECORD_BATCH_MESSAGE,
+    table(
+      int64(rows.length),
+      { kind: "structs", count: batch.nodes.length, bytes: bytesOf(nodes) },
+      { kind: "structs", count: batch.buffers.length, bytes: bytesOf(layout) }
+    ),
+    body
+  );
+  return [schema, records, END_OF_STREAM.slice()];
+}
+
+const END_OF_STREAM = new Uint8Array([255, 255, 255, 255, 0, 0, 0, 0]);
+
+function decodeType(
+  reader: FlatReader,
+  typeId: number,
+  type: number | null,
+  children: ArrowField[]
+): ArrowType {
+  const at = type ?? 0;
+  const field = (index: number, bits: 8 | 16 | 32, missing = 0) =>
+    type === null ? missing : reader.int(at, index, bits, missing);
+  switch (typeId) {
+    case TYPE_IDS.null:
+      return { id: "null" };
+    case TYPE_IDS.bool:
+      return { id: "bool" };
+    case TYPE_IDS.int: {
+      const bitWidth = field(0, 32);
+      if (![8, 16, 32, 64].includes(bitWidth)) {
+        break;
+      }
+      return {
+        id: "int",
+        bitWidth: bitWidth as 8 | 16 | 32 | 64,
+        signed: field(1, 8) !== 0,
+      };
+    }
+    case TYPE_IDS.float: {
+      const precision = field(0, 16);
+      if (precision === 0) {
+        break;
+      }
+      return { id: "float", bitWidth: precision === 1 ? 32 : 64 };
+    }
+    case TYPE_IDS.decimal:
+      return {
+        id: "decimal",
+        precision: field(0, 32),
+        scale: field(1, 32),
+        bitWidth: field(2, 32, 128) === 256 ? 256 : 128,
+      };
+    case TYPE_IDS.utf8:
+      return { id: "utf8" };
+    case TYPE_IDS.binary:
+      return { id: "binary" };
+    case TYPE_IDS.date:
+      if (field(0, 16) !== 0) {
+        break;
+      }
+      return { id: "date" };
+    case TYPE_IDS.timestamp:
+      if (field(0, 16) !== 1) {
+        break;
+      }
+      return { id: "timestamp", timezone: reader.string(at, 1) };
+    case TYPE_IDS.interval:
+      if (field(0, 16) !== 2) {
+        break;
+      }
+      return { id: "interval" };
+    case TYPE_IDS.list:
+      return { id: "list", child: children[0] };
+    case TYPE_IDS.struct:
+      return { id: "struct", children };
+  }
+  throw new Error(`unsupported Arrow type ${typeId}`);
+}
+
+function decodeField(reader: FlatReader, position: number): ArrowField {
+  if (reader.field(position, 4) !== null) {
+    throw new Error("dictionary encoded Arrow fields are not supported");
+  }
+  const children = reader
+    .objects(position, 5)
+    .map((child) => decodeField(reader, child));
+  return {
+    name: reader.string(position, 0) ?? "",
+    type: decodeType(
+      reader,
+      reader.int(position, 2, 8),
+      reader.object(position, 3),
+      children
+    ),
+  };
+}
+
+/* Reads the columns of a record batch, consuming its nodes and buffers. */
+interface BatchReader {
+  body: DataView;
+  nodes: number[][];
+  buffers: number[][];
+}
+
+function decodeColumn(batch: BatchReader, type: ArrowType): unknown[] {
+  const [length, nullCount] = batch.nodes.shift()!;
+  if (type.id === "null") {
+    return new Array(length).fill(null);
+  }
+  const buffer = () => {
+    const [offset, size] = batch.buffers.shift()!;
+    return new DataView(
+      batch.body.buffer,
+      batch.body.byteOffset + offset,
+      size
+    );
+  };
+  const validity = buffer();
+  const valid = (i: number) =>
+    nullCount === 0 ||
+    validity.byteLength === 0 ||
+    (validity.getUint8(i >> 3) & (1 << (i & 7))) !== 0;
+  const column = (value: (i: number) => unknown) =>
+    Array.from({ length }, (_, i) => (valid(i) ? value(i) : null));
+  switch (type.id) {
+    case "bool": {
+      const values = buffer();
+      return column((i) => (values.getUint8(i >> 3) & (1 << (i & 7))) !== 0);
+    }
+    case "int": {
+      const values = buffer();
+      const { bitWidth, signed } = type;
+      const read = {
+        8: (i: number) => (signed ? values.getInt8(i) : values.getUint8(i)),
+        16: (i: number) =>
+          signed ? values.getInt16(2 * i, true) : values.getUint16(2 * i, true),
+        32: (i: number) =>
+          signed ? values.getInt32(4 * i, true) : values.getUint32(4 * i, true),
+        64: (i: number) =>
+          signed
+            ? values.getBigInt64(8 * i, true)
+            : values.getBigUint64(8 * i, true),
+      }[bitWidth];
+      return column(read);
+    }
+    case "float": {
+      const values = buffer();
+      return column((i) =>
+        type.bitWidth === 32
+          ? values.getFloat32(4 * i, true)
+          : values.getFloat64(8 * i, true)
+      );
+    }
+    case "decimal": {
+      const values = buffer();
+      const width = type.bitWidth / 8;
+      return column((i) => {
+        const unscaled = readWideInt(values, width * i, width);
+        return type.scale === 0
+          ? unscaled
+          : Number(unscaled) / 10 ** type.scale;
+      });
+    }
+    case "utf8":
+    case "binary": {
+      const offsets = buffer();
+      const data = buffer();
+      return column((i) => {
+        const start = offsets.getInt32(4 * i, true);
+        const end = offsets.getInt32(4 * i + 4, true);
+        const bytes = Buffer.from(
+          data.buffer,
+          data.byteOffset + start,
+          end - start
+        );
+        return type.id === "utf8" ? bytes.toString("utf8") : Buffer.from(bytes);
+      });
+    }
+    case "date": {
+      const values = buffer();
+      return column((i) => new Date(values.getInt32(4 * i, true) * MS_PER_DAY));
+    }
+    case "timestamp": {
+      const values = buffer();
+      return column((i) => new Date(Number(values.getBigInt64(8 * i, true))));
+    }
+    case "interval": {
+      const values = buffer();
+      return column((i) => ({
+        months: values.getInt32(16 * i, true),
+        days: values.getInt32(16 * i + 4, true),
+        micros: Number(values.getBigInt64(16 * i + 8, true) / 1000n),
+      }));
+    }
+    case "list": {
+      const offsets = buffer();
+      const items = decodeColumn(batch, type.child.type);
+      return column((i) =>
+        items.slice(
+          offsets.getInt32(4 * i, true),
+          offsets.getInt32(4 * i + 4, true)
+        )
+      );
+    }
+    case "struct": {
+      const children = type.children.map(
+        (child) => [child.name, decodeColumn(batch, child.type)] as const
+      );
+      return column((i) =>
+        Object.fromEntries(children.map(([name, values]) => [name, values[i]]))
+      );
+    }
+  }
+}
+
+/**
+ * Decode the rows of an Arrow IPC stream, given as consecutive buffers
+ * (e.g. as returned by `encodeArrowIPC()`), each holding whole messages.
+ */
+export function decodeArrowIPC(buffers: readonly Uint8Array[]): Row[] {
+  let fields: ArrowField[] | null = null;
+  const rows: Row[] = [];
+  for (const buffer of buffers) {
+    const view = new DataView(
+      buffer.buffer,
+      buffer.byteOffset,
+      buffer.byteLength
+    );
+    let position = 0;
+    while (position + 8 <= view.byteLength) {
+      // messages are prefixed by a continuation marker since Arrow 0.15
+      if (view.getUint32(position, true) === CONTINUATION) {
+        position += 4;
+      }
+      const metadataLength = view.getInt32(position, true);
+      position += 4;
+      if (metadataLength === 0) {
+        return rows;
+      }
+      const reader = new FlatReader(
+        new DataView(view.buffer, view.byteOffset + position, metadataLength)
+      );
+      const root = reader.root();
+      const headerType = reader.int(root, 1, 8);
+      const header = reader.object(root, 2);
+      const bodyLength = reader.int64(root, 3);
+      const body = new DataView(
+        view.buffer,
+        view.byteOffset + position + metadataLength,
+        bodyLength
+      );
+      position += metadataLength + bodyLength;
+      if (header === null) {
+        continue;
+      }
+      if (headerType === SCHEMA_MESSAGE) {
+        fields = reader
+          .objects(header, 1)
+          .map((field) => decodeField(reader, field));
+      } else if (headerType === RECORD_BATCH_MESSAGE) {
+        if (!fields) {
+          throw new Error("Arrow record batch before the schema");
+        }
+        if (reader.field(header, 3) !== null) {
+          throw new Error("compressed Arrow record batches are not supported");
+        }
+        const batch: BatchReader = {
+          body,
+          nodes: reader.structs(header, 1, 2),
+          buffers: reader.structs(header, 2, 2),
+        };
+        const length = reader.int64(header, 0);
+        const columns = fields.map(
+          (field) => [field.name, decodeColumn(batch, field.type)] as const
+        );
+        for (let i = 0; i < length; i++) {
+          const row: Row = {};
+          for (const [name, values] of columns) {
+            row[name] = values[i];
+          }
+          rows.push(row);
+        }
+      } else {
+        throw new Error(`unsupported Arrow message type ${headerType}`);
+      }
+    }
+  }
+  return rows;
+}
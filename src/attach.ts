@@ -0,0 +1,112 @@
+/**
+ * Attaching further database files (DuckDb, or other formats such as
+ * SQLite through their extensions) to a database.
+ */
+import * as path from "path";
+import type { Connection, Database } from "./duckdb-async";
+import { DuckDbAsyncError } from "./errors";
+import { sql, SqlQuery } from "./sql";
+
+export interface AttachOptions {
+  /**
+   * Name the database is attached as. Defaults to the file name of `path`
+   * without its extension.
+   */
+  alias?: string;
+  /** Attach the database read-only. */
+  readOnly?: boolean;
+  /**
+   * Storage type of the file, e.g. `"sqlite"` or `"postgres"`; the
+   * extension of that name is loaded if needed. Defaults to DuckDb's own
+   * format (or the type DuckDb detects).
+   */
+  type?: string;
+}
+
+/*
+ * The name DuckDb attaches `file` as when no alias is given: its file name
+ * without its extension.
+ */
+function defaultAlias(method: string, file: string): string {
+  const alias = path.parse(file).name;
+  if (file === ":memory:" || alias === "") {
+    throw new DuckDbAsyncError(
+      `${method}: an alias is required to attach "${file}"`,
+      method
+    );
+  }
+  return alias;
+}
+
+/**
+ * The `ATTACH` statement attaching the database file `file`.
+ * @returns the statement and the name the database is attached as
+ */
+export function attachStatement(
+  method: string,
+  file: string,
+  options: AttachOptions = {}
+): [SqlQuery, string] {
+  const alias = options.alias ?? defaultAlias(method, file);
+  const settings: SqlQuery[] = [];
+  if (options.type !== undefined) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(options.type)) {
+      throw new DuckDbAsyncError(
+        `${method}: invalid database type "${options.type}"`,
+        method
+      );
+    }
+    settings.push(new SqlQuery(`TYPE ${options.type}`, []));
+  }
+  if (options.readOnly) {
+    settings.push(sql`READ_ONLY`);
+  }
+  const statement = sql`ATTACH ${sql.literal(file)} AS ${sql.identifier(
+    alias
+  )}`;
+  return [
+    settings.length > 0
+      ? sql`${statement} (${sql.join(settings, sql`, `)})`
+      : statement,
+    alias,
+  ];
+}
+
+/**
+ * Attach the database file `file` to `target`'s database.
+ * @returns `Promise` that resolves to the name the database is attached as
+ */
+export async function attach(
+  method: string,
+  target: Connection | Database,
+  file: string,
+  options?: AttachOptions
+): Promise<string> {
+  const [statement, alias] = attachStatement(method, file, options);
+  await target.exec(statement);
+  return alias;
+}
+
+/** Detach the database attached as `alias`. */
+export async function detach(
+  target: Connection | Database,
+  alias: string
+): Promise<void> {
+  await target.exec(sql`DETACH ${sql.identifier(alias)}`);
+}
+
+/**
+ * Make `database` (and `schema`, if given) the default catalog of the
+ * queries run on `target`.
+ */
+export async function use(
+  target: Connection | Database,
+  database: string,
+  schema?: string
+): Promise<void> {
+  await target.exec(
+    sql`USE ${sql.identifier(
+      schema === undefined ? database : [database, schema]
+    )}`
+  );
+}
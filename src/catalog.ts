@@ -0,0 +1,274 @@
+/**
+ * Introspection of the databases, schemas, tables, views and functions of a
+ * DuckDb database, built on its `duckdb_*()` table functions.
+ */
+import type { TypeInfo } from "duckdb";
+import type { Database } from "./duckdb-async";
+import { DuckDbAsyncError } from "./errors";
+import { sql, SqlQuery } from "./sql";
+
+/** Filters for the `list*()` methods of `Catalog`. */
+export interface CatalogListOptions {
+  /** Only list entries of this database (catalog). */
+  database?: string;
+  /** Only list entries of this schema. */
+  schema?: string;
+  /** Include DuckDb's built-in entries. Defaults to false. */
+  includeInternal?: boolean;
+}
+
+/** An attached database, as reported by `duckdb_databases()`. */
+export interface DatabaseInfo {
+  name: string;
+  /** File of the database, or null for in-memory databases. */
+  path: string | null;
+  /** Storage type, e.g. `"duckdb"` or `"sqlite"`. */
+  type: string;
+  readonly: boolean;
+  internal: boolean;
+  comment: string | null;
+}
+
+/** A schema, as reported by `duckdb_schemas()`. */
+export interface SchemaInfo {
+  database: string;
+  name: string;
+  internal: boolean;
+  comment: string | null;
+}
+
+/** A table, as reported by `duckdb_tables()`. */
+export interface TableInfo {
+  database: string;
+  schema: string;
+  name: string;
+  temporary: boolean;
+  columnCount: number;
+  /** Estimated number of rows. */
+  estimatedSize: number;
+  comment: string | null;
+}
+
+/** A column of a table, as described by `describeTable()`. */
+export interface ColumnDescription {
+  name: string;
+  type: TypeInfo;
+  nullable: boolean;
+  /** SQL expression of the column's default value. */
+  default: string | null;
+  comment: string | null;
+}
+
+/** A constraint of a table, as reported by `duckdb_constraints()`. */
+export interface ConstraintInfo {
+  type: "PRIMARY KEY" | "UNIQUE" | "FOREIGN KEY" | "CHECK" | "NOT NULL";
+  columns: string[];
+  /** SQL text of the constraint, e.g. `"CHECK((price > 0))"`. */
+  sql: string;
+  /** Table referenced by a FOREIGN KEY constraint. */
+  referencedTable: string | null;
+  /** Columns referenced by a FOREIGN KEY constraint. */
+  referencedColumns: string[] | null;
+}
+
+export interface TableDescription extends TableInfo {
+  columns: ColumnDescription[];
+  constraints: ConstraintInfo[];
+}
+
+/** A view, as reported by `duckdb_views()`. */
+export interface ViewInfo {
+  database: string;
+  schema: string;
+  name: string;
+  temporary: boolean;
+  /** The view's `CREATE VIEW` statement. */
+  sql: string;
+  comment: string | null;
+}
+
+/** A function or macro, as reported by `duckdb_functions()`. */
+export interface FunctionInfo {
+  database: string;
+  schema: string;
+  name: string;
+  /** `"scalar"`, `"aggregate"`, `"table"`, `"macro"`, ... */
+  type: string;
+  parameters: string[];
+  parameterTypes: string[];
+  returnType: string | null;
+  description: string | null;
+  internal: boolean;
+}
+
+/*
+ * WHERE conditions for the options of a list*() method, in a
+ * `duckdb_*()` table function with database_name and schema_name columns.
+ */
+function listConditions(
+  options: CatalogListOptions,
+  hasSchema = true
+): SqlQuery {
+  const conditions = [sql`TRUE`];
+  if (options.database !== undefined) {
+    conditions.push(sql`database_name = ${options.database}`);
+  }
+  if (options.schema !== undefined && hasSchema) {
+    conditions.push(sql`schema_name = ${options.schema}`);
+  }
+  if (!options.includeInternal) {
+    conditions.push(sql`NOT internal`);
+  }
+  return sql.join(conditions, sql` AND `);
+}
+
+/*
+ * Conditions selecting the table DuckDb resolves `name` to: a bare name is
+ * looked up among temporary tables, then in the current schema; a two part
+ * name is a schema or database; a three part name is database, schema and
+ * table.
+ */
+function tableConditions(method: string, name: string | string[]): SqlQuery {
+  const parts = typeof name === "string" ? [name] : name;
+  const table = parts[parts.length - 1];
+  switch (parts.length) {
+    case 1:
+      return sql`table_name = ${table} AND (temporary OR
+        (database_name = current_database() AND
+        schema_name = current_schema()))`;
+    case 2:
+      return sql`table_name = ${table} AND
+        ((database_name = current_database() AND schema_name = ${parts[0]}) OR
+        (database_name = ${parts[0]} AND schema_name = 'main'))`;
+    case 3:
+      return sql`table_name = ${table} AND database_name = ${parts[0]}
+        AND schema_name = ${parts[1]}`;
+    default:
+      throw new DuckDbAsyncError(
+        `${method}: invalid table name ${JSON.stringify(name)}`,
+        method
+      );
+  }
+}
+
+const TABLE_COLUMNS = sql`database_name AS "database",
+  schema_name AS "schema", table_name AS name, temporary,
+  column_count::INTEGER AS "columnCount",
+  estimated_size::DOUBLE AS "estimatedSize", comment`;
+
+/**
+ * Lists the databases, schemas, tables, views and functions of a `Database`;
+ * available as `Database.schema`.
+ */
+export class Catalog {
+  private constructor(private db: Database) {}
+
+  /**
+   * create the Catalog of a Database.
+   * This is intended for internal use only, and should not be called directly.
+   */
+  static create_internal(db: Database): Catalog {
+    return new Catalog(db);
+  }
+
+  /** The attached databases. */
+  async listDatabases(
+    options: Pick<CatalogListOptions, "includeInternal"> = {}
+  ): Promise<DatabaseInfo[]> {
+    return this.db.all<DatabaseInfo>(
+      sql`SELECT database_name AS name, path, type, readonly, internal, comment
+        FROM duckdb_databases() WHERE ${listConditions(options, false)}
+        ORDER BY database_name`
+    );
+  }
+
+  async listSchemas(
+    options: Omit<CatalogListOptions, "schema"> = {}
+  ): Promise<SchemaInfo[]> {
+    return this.db.all<SchemaInfo>(
+      sql`SELECT database_name AS "database", schema_name AS name, internal,
+          comment
+        FROM duckdb_schemas() WHERE ${listConditions(options, false)}
+        ORDER BY database_name, schema_name`
+    );
+  }
+
+  async listTables(options: CatalogListOptions = {}): Promise<TableInfo[]> {
+    return this.db.all<TableInfo>(
+      sql`SELECT ${TABLE_COLUMNS}
+        FROM duckdb_tables() WHERE ${listConditions(options)}
+        ORDER BY database_name, schema_name, table_name`
+    );
+  }
+
+  /**
+   * Describe the columns, with their structured types, and the constraints
+   * of a table. Fails with a `CatalogError` if the table does not exist.
+   * @param name table name, or schema-qualified name as an array
+   */
+  async describeTable(name: string | string[]): Promise<TableDescription> {
+    const method = "Database.schema.describeTable";
+    // also reports missing tables with DuckDb's error message
+    const { columns: types } = await this.db.allWithMetadata(
+      sql`SELECT * FROM ${sql.identifier(name)} LIMIT 0`
+    );
+    const [table] = await this.db.all<TableInfo>(
+      sql`SELECT ${TABLE_COLUMNS} FROM duckdb_tables()
+        WHERE ${tableConditions(method, name)}
+        ORDER BY temporary DESC LIMIT 1`
+    );
+    if (!table) {
+      throw new DuckDbAsyncError(
+        `${method}: ${sql.identifier(name).text} is not a table`,
+        method
+      );
+    }
+    const where = sql`database_name = ${table.database}
+      AND schema_name = ${table.schema} AND table_name = ${table.name}`;
+    const columns = await this.db.all<Omit<ColumnDescription, "type">>(
+      sql`SELECT column_name AS name, is_nullable AS nullable,
+          column_default AS "default", comment
+        FROM duckdb_columns() WHERE ${where} ORDER BY column_index`
+    );
+    const constraints = await this.db.all<ConstraintInfo>(
+      sql`SELECT constraint_type AS "type",
+          constraint_column_names AS "columns", constraint_text AS "sql",
+          CASE WHEN constraint_type = 'FOREIGN KEY'
+            THEN referenced_table END AS "referencedTable",
+          CASE WHEN constraint_type = 'FOREIGN KEY'
+            THEN referenced_column_names END AS "referencedColumns"
+        FROM duckdb_constraints() WHERE ${where} ORDER BY constraint_index`
+    );
+    return {
+      ...table,
+      columns: columns.map((column, i) => ({ ...column, type: types[i].type })),
+      constraints,
+    };
+  }
+
+  async listViews(options: CatalogListOptions = {}): Promise<ViewInfo[]> {
+    return this.db.all<ViewInfo>(
+      sql`SELECT database_name AS "database", schema_name AS "schema",
+          view_name AS name, temporary, sql, comment
+        FROM duckdb_views() WHERE ${listConditions(options)}
+        ORDER BY database_name, schema_name, view_name`
+    );
+  }
+
+  /**
+   * Functions and macros. DuckDb's hundreds of built-in functions are only
+   * listed when `includeInternal` is set.
+   */
+  async listFunctions(
+    options: CatalogListOptions = {}
+  ): Promise<FunctionInfo[]> {
+    return this.db.all<FunctionInfo>(
+      sql`SELECT database_name AS "database", schema_name AS "schema",
+          function_name AS name, function_type AS "type", parameters,
+          parameter_types AS "parameterTypes", return_type AS "returnType",
+          description, internal
+        FROM duckdb_functions() WHERE ${listConditions(options)}
+        ORDER BY database_name, schema_name, function_name`
+    );
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * Conversion of the values returned by DuckDb according to their SQL types.
+ */
+import type { ColumnInfo, TypeInfo } from "duckdb";
+import { DuckDbAsyncError } from "./errors";
+
+/**
+ * Converts a non-NULL value of the SQL type `type`, as returned by the
+ * DuckDb NodeJS API, to the value returned to the application.
+ */
+export type ValueConverter = (value: any, type: TypeInfo) => unknown;
+
+/**
+ * How values returned by queries are converted, by SQL type.
+ * See `DatabaseOptions.types` and `ConnectionOptions.types`.
+ */
+export interface TypeMapping {
+  /**
+   * Representation of 64 and 128 bit integers (BIGINT, UBIGINT, HUGEINT,
+   * UHUGEINT). Defaults to `"bigint"`. Values that can not be represented
+   * exactly as a `"number"` raise an error.
+   */
+  bigint?: "bigint" | "number" | "string";
+  /**
+   * Representation of DECIMAL values. Defaults to `"number"`. The DuckDb
+   * NodeJS API returns DECIMALs as doubles, so `"string"` formats that
+   * double with the type's scale: it is lossy, exact only up to 15
+   * significant digits. Cast to VARCHAR in the query for the exact text.
+   */
+  decimal?: "number" | "string";
+  /**
+   * Representation of TIMESTAMP values (of any precision, with or without
+   * time zone): a `Date`, an ISO 8601 string, or a `Temporal.PlainDateTime`
+   * (`Temporal.Instant` with time zone), which requires a global `Temporal`
+   * object. Defaults to `"Date"`. The DuckDb NodeJS API returns
+   * millisecond precision timestamps.
+   */
+  timestamp?: "Date" | "string" | "temporal";
+  /**
+   * Converters for values of other types, keyed by type name: a type's
+   * alias (for user defined types), its full SQL type (`"DECIMAL(18,3)"`)
+   * or its type id (`"DECIMAL"`, `"MAP"`), tried in that order. A converter
+   * replaces the built-in conversion of its type. Values of types the
+   * DuckDb NodeJS API does not support, such as MAP and UNION, arrive as
+   * strings.
+   */
+  converters?: Record<string, ValueConverter>;
+}
+
+type Convert = (value: unknown) => unknown;
+
+/** Converts a result row in place. */
+export type RowConverter = (row: Record<string, unknown>) => void;
+
+const BIGINT_TYPES = new Set(["BIGINT", "UBIGINT", "HUGEINT", "UHUGEINT"]);
+
+function bigintConverter(
+  method: string,
+  mode: TypeMapping["bigint"]
+): Convert | null {
+  switch (mode) {
+    case "number":
+      return (value) => {
+        const n = Number(value);
+        if (!Number.isSafeInteger(n)) {
+          throw new DuckDbAsyncError(
+            `${method}: integer ${value} can not be represented exactly as a number`,
+            method
+          );
+        }
+        return n;
+      };
+    case "string":
+      return (value) => String(value);
+    default:
+      return null;
+  }
+}
+
+function timestampConverter(
+  method: string,
+  mode: TypeMapping["timestamp"],
+  type: TypeInfo
+): Convert | null {
+  switch (mode) {
+    case "string":
+      return (value) => (value as Date).toISOString();
+    case "temporal": {
+      const Temporal = (globalThis as any).Temporal;
+      if (!Temporal) {
+        throw new DuckDbAsyncError(
+          `${method}: timestamp mapping "temporal" requires a global Temporal object`,
+          method
+        );
+      }
+      // DuckDb returns timestamps without time zone as their UTC wall clock
+      return type.id === "TIMESTAMP WITH TIME ZONE"
+        ? (value) =>
+            Temporal.Instant.fromEpochMilliseconds((value as Date).getTime())
+        : (value) =>
+            Temporal.PlainDateTime.from(
+              (value as Date).toISOString().slice(0, -1)
+            );
+    }
+    default:
+      return null;
+  }
+}
+
+function customConverter(
+  type: TypeInfo,
+  converters: Record<string, ValueConverter> | undefined
+): Convert | null {
+  if (!converters) {
+    return null;
+  }
+  for (const name of [type.alias, type.sql_type, type.id]) {
+    if (
+      name !== undefined &&
+      Object.prototype.hasOwnProperty.call(converters, name)
+    ) {
+      const convert = converters[name];
+      return (value) => convert(value, type);
+    }
+  }
+  return null;
+}
+
+/*
+ * Build the conversion of values of SQL type `type`, or return null if they
+ * are returned unchanged. Converters for nested types convert their
+ * children.
+ */
+function valueConverter(
+  method: string,
+  mapping: TypeMapping,
+  type: TypeInfo
+): Convert | null {
+  const custom = customConverter(type, mapping.converters);
+  if (custom) {
+    return custom;
+  }
+  if (BIGINT_TYPES.has(type.id)) {
+    return bigintConverter(method, mapping.bigint);
+  }
+  if (type.id === "DECIMAL" && mapping.decimal === "string") {
+    const scale = "scale" in type ? type.scale : 0;
+    // lossy beyond 15 digits: the precision is lost in the double already
+    return (value) => (value as number).toFixed(scale);
+  }
+  if (type.id.startsWith("TIMESTAMP")) {
+    return timestampConverter(method, mapping.timestamp, type);
+  }
+  if (type.id === "LIST" && "child" in type) {
+    const convert = valueConverter(method, mapping, type.child);
+    return convert
+      ? (value) =>
+          (value as unknown[]).map((item) =>
+            item === null ? null : convert(item)
+          )
+      : null;
+  }
+  if (type.id === "STRUCT" && "children" in type) {
+    const convert = fieldConverter(method, mapping, type.children);
+    return convert
+      ? (value) => {
+          convert(value as Record<string, unknown>);
+          return value;
+        }
+      : null;
+  }
+  return null;
+}
+
+function fieldConverter(
+  method: string,
+  mapping: TypeMapping,
+  fields: ColumnInfo[]
+): RowConverter | null {
+  const converters: [string, Convert][] = [];
+  for (const { name, type } of fields) {
+    const convert = valueConverter(method, mapping, type);
+    if (convert) {
+      converters.push([name, convert]);
+    }
+  }
+  if (converters.length === 0) {
+    return null;
+  }
+  return (row) => {
+    for (const [name, convert] of converters) {
+      const value = row[name];
+      if (value !== null && value !== undefined) {
+        row[name] = convert(value);
+      }
+    }
+  };
+}
+
+/*
+ * Build a function converting the rows of a result with columns `columns`
+ * in place, or return null if rows are returned unchanged.
+ */
+export function rowConverter(
+  method: string,
+  mapping: TypeMapping | null,
+  columns: ColumnInfo[] | null
+): RowConverter | null {
+  if (!mapping || !columns) {
+    return null;
+  }
+  return fieldConverter(method, mapping, columns);
+}
+
+/*
+ * Build the conversion of UDF arguments of the SQL type named `sqlType`, or
+ * return null if they are passed unchanged.
+ */
+export function argumentConverter(
+  method: string,
+  mapping: TypeMapping | null,
+  sqlType: string
+): Convert | null {
+  if (!mapping) {
+    return null;
+  }
+  return valueConverter(method, mapping, { id: sqlType, sql_type: sqlType });
+}
+
+/*
+ * Validate a type mapping when it is configured, rather than when it is
+ * first applied.
+ */
+export function checkTypeMapping(method: string, mapping: TypeMapping): void {
+  const check = (key: string, value: unknown, allowed: unknown[]) => {
+    if (value !== undefined && !allowed.includes(value)) {
+      throw new DuckDbAsyncError(
+        `${method}: invalid ${key} type mapping ${JSON.stringify(value)}`,
+        method
+      );
+    }
+  };
+  check("bigint", mapping.bigint, ["bigint", "number", "string"]);
+  check("decimal", mapping.decimal, ["number", "string"]);
+  check("timestamp", mapping.timestamp, ["Date", "string", "temporal"]);
+}
@@ -5,15 +5,209 @@
  */
 import * as duckdb from "duckdb";
 import { ColumnInfo, TypeInfo } from "duckdb";
+
+export { Appender, AppenderOptions, InsertRow } from "./appender";
+export { ConnectionPool, PoolOptions } from "./pool";
+export {
+  migrate,
+  MigrateOptions,
+  Migration,
+  MigrationResult,
+} from "./migrate";
+export { sql, SqlQuery } from "./sql";
+export { QueryOptions, RowParser, RowQueryOptions } from "./query";
+export {
+  FunctionArgs,
+  FunctionDefinition,
+  NullableFunctionArgs,
+  NullHandling,
+  SqlType,
+  Types,
+  typesFor,
+} from "./functions";
+export { StreamFormat, ToStreamOptions } from "./streams";
+export { ColumnarResult, ResultWithMetadata, toColumnar } from "./results";
+export { TypeMapping, ValueConverter } from "./conversion";
+export {
+  generateTypes,
+  GenerateTypesOptions,
+  typeScriptType,
+} from "./typegen";
+export {
+  Catalog,
+  CatalogListOptions,
+  ColumnDescription,
+  ConstraintInfo,
+  DatabaseInfo,
+  FunctionInfo,
+  SchemaInfo,
+  TableDescription,
+  TableInfo,
+  ViewInfo,
+} from "./catalog";
+export { RegisterTableOptions, TableRows, TableSchema } from "./tables";
+export { AttachOptions } from "./attach";
+export {
+  CopyFormat,
+  CopySource,
+  CopyToBufferOptions,
+  CopyToOptions,
+  readCsv,
+  ReadCsvOptions,
+  ReadFileOptions,
+  readJson,
+  ReadJsonOptions,
+  readParquet,
+  ReadParquetOptions,
+} from "./files";
+export {
+  ExtensionInfo,
+  Extensions,
+  InstallExtensionOptions,
+} from "./extensions";
+export {
+  AccessMode,
+  DatabaseConfig,
+  DatabaseConfigStrings,
+  SetSettingOptions,
+  SettingValue,
+} from "./settings";
+export {
+  Instrumentation,
+  QueryEndEvent,
+  QueryErrorEvent,
+  QueryLogger,
+  QueryStartEvent,
+  QueryTrace,
+  Span,
+  Tracer,
+} from "./instrumentation";
+export {
+  BinderError,
+  BulkInsertError,
+  CatalogError,
+  ConnectionClosedError,
+  ConstraintError,
+  ConversionError,
+  DatabaseClosedError,
+  DuckDbAsyncError,
+  InvalidInputError,
+  IOError,
+  MigrationError,
+  OutOfMemoryError,
+  ParserError,
+  QueryCancelledError,
+  QueryError,
+  QueryErrorContext,
+  QueryTimeoutError,
+  StatementClosedError,
+  TransactionConflictError,
+  TransactionError,
+} from "./errors";
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
 import * as util from "util";
+import { Appender, AppenderOptions, InsertRow } from "./appender";
+import {
+  checkTypeMapping,
+  rowConverter,
+  RowConverter,
+  TypeMapping,
+} from "./conversion";
+import { ConnectionPool, PoolOptions } from "./pool";
+import { bindNamedParams, isNamedParams, parseSql } from "./params";
+import {
+  isCancellable,
+  parseRows,
+  queryArgs,
+  queryContext,
+  QueryOptions,
+  queryText,
+  RowParser,
+  raceCancellation,
+  runQuery,
+  takeQueryOptions,
+  watchCancellation,
+} from "./query";
+import { ResultWithMetadata } from "./results";
+import {
+  configRecord,
+  DatabaseConfig,
+  DatabaseConfigStrings,
+  getSetting,
+  getSettings,
+  setSetting,
+  SetSettingOptions,
+  SettingValue,
+} from "./settings";
+import { sql, SqlQuery } from "./sql";
+import { StatementCache } from "./statement-cache";
+import { toNodeStream, ToStreamOptions, toWebStream } from "./streams";
+import { Catalog, DatabaseInfo } from "./catalog";
+import { attach, AttachOptions, detach, use } from "./attach";
+import { openConnection, openWorkerDatabase } from "./worker";
+import { Extensions } from "./extensions";
+import {
+  isSessionStatement,
+  isWriteStatement,
+  WriteQueue,
+} from "./write-queue";
+import {
+  copyTo,
+  copyToBuffer,
+  CopySource,
+  CopyToBufferOptions,
+  CopyToOptions,
+  readCsv,
+  ReadCsvOptions,
+  readJson,
+  ReadJsonOptions,
+  readParquet,
+  ReadParquetOptions,
+} from "./files";
+import {
+  dropTable,
+  registerTable,
+  RegisterTableOptions,
+  TableRows,
+} from "./tables";
+import { Instrumentation } from "./instrumentation";
+import {
+  CompiledFunction,
+  compileFunction,
+  FunctionDefinition,
+  NullHandling,
+  SqlType,
+} from "./functions";
+import {
+  ConnectionClosedError,
+  DatabaseClosedError,
+  DuckDbAsyncError,
+  QueryErrorContext,
+  StatementClosedError,
+  TransactionConflictError,
+  toQueryError,
+} from "./errors";
 
 type Callback<T> = (err: duckdb.DuckDbError | null, res: T) => void;
 
+/*
+ * The native QueryResult returned by `Statement.stream()` exposes a
+ * `nextChunk()` method that is not part of the duckdb.d.ts declarations.
+ * It resolves to the next chunk of rows, or `null` once the result is
+ * exhausted.
+ */
+interface ChunkedQueryResult {
+  nextChunk(): Promise<duckdb.TableData | null>;
+}
+
 export {
+  ColumnInfo,
   DuckDbError,
   QueryResult,
   RowData,
   TableData,
+  TypeInfo,
   OPEN_CREATE,
   OPEN_FULLMUTEX,
   OPEN_PRIVATECACHE,
@@ -34,58 +228,375 @@ export {
  *   for detailed discussion.
  */
 function methodPromisify<T extends object, R>(
-  methodFn: (...args: any[]) => any
+  method: keyof T & string
 ): (target: T, ...args: any[]) => Promise<R> {
+  // called by name, so stand-ins for objects hosted in a worker thread
+  // work as well
   return util.promisify((target: T, ...args: any[]): any =>
-    methodFn.bind(target)(...args)
+    (target as any)[method](...args)
   ) as any;
 }
 
-const connAllAsync = methodPromisify<duckdb.Connection, duckdb.TableData>(
-  duckdb.Connection.prototype.all
-);
+const countRows = (rows: unknown[]) => rows.length;
+
+const countResultRows = (result: ResultWithMetadata<unknown>) =>
+  result.rowCount;
+
+/*
+ * Streams the result of a prepared statement one chunk at a time.
+ * A chunk is only fetched when the consumer asks for the next value, so
+ * no more than one chunk is held in memory regardless of result size.
+ * When `finalize` is set the statement is finalized once iteration ends,
+ * including when the consumer exits early (`break` / `return` / `throw`
+ * inside a `for await` loop) or the iteration is cancelled.
+ */
+async function* iterateChunksInternal<T>(
+  instrumentation: Instrumentation,
+  context: QueryErrorContext,
+  prepare: () => Promise<duckdb.Statement>,
+  args: any[],
+  options: QueryOptions,
+  mapping: TypeMapping | null,
+  finalize: boolean,
+  parseRow: RowParser<T> | null = null
+): AsyncGenerator<T[], void, undefined> {
+  const watch = watchCancellation(context.method, options, () =>
+    instrumentation.interrupt_internal()
+  );
+  const trace = instrumentation.begin(context);
+  let rowCount = 0;
+  try {
+    const stmt = await prepare();
+    try {
+      const result: ChunkedQueryResult = await raceCancellation(
+        watch,
+        (stmt as any).stream(...args)
+      );
+      const convert = rowConverter(context.method, mapping, stmt.columns());
+      while (true) {
+        const chunk = await raceCancellation(watch, result.nextChunk());
+        if (!chunk) {
+          return;
+        }
+        rowCount += chunk.length;
+        if (convert) {
+          chunk.forEach(convert);
+        }
+        yield parseRow ? chunk.map((row) => parseRow(row)) : (chunk as T[]);
+      }
+    } finally {
+      if (finalize) {
+        await stmtFinalizeAsync(stmt);
+      }
+    }
+  } catch (err) {
+    const queryErr = toQueryError(err, context);
+    trace.fail(queryErr);
+    throw queryErr;
+  } finally {
+    // also reached when the consumer stops iterating early
+    trace.end(rowCount);
+    watch?.dispose();
+  }
+}
+
+/*
+ * Run `each()` on a prepared statement, converting the rows passed to the
+ * row callback (the last of `args`) according to `mapping`. Conversion
+ * errors are passed to the callback.
+ */
+function eachConvertedInternal(
+  method: string,
+  mapping: TypeMapping,
+  stmt: duckdb.Statement,
+  args: any[]
+): void {
+  const callback = args[args.length - 1];
+  if (typeof callback !== "function") {
+    stmt.each(...args);
+    return;
+  }
+  // the statement's columns are known once the first row arrives
+  let convert: RowConverter | null | undefined;
+  stmt.each(
+    ...args.slice(0, -1),
+    (err: duckdb.DuckDbError | null, row: duckdb.RowData) => {
+      if (!err) {
+        try {
+          if (convert === undefined) {
+            convert = rowConverter(method, mapping, stmt.columns());
+          }
+          convert?.(row);
+        } catch (convertErr) {
+          callback(convertErr, row);
+          return;
+        }
+      }
+      callback(err, row);
+    }
+  );
+}
+
+/*
+ * Run the statement prepared by `prepare`, fetching its rows one chunk at a
+ * time, convert them according to `mapping` and pass them to the row
+ * callback (the last of `args`), then finalize the statement. Errors,
+ * including conversion errors and errors thrown by the callback, stop the
+ * query and are passed to the callback.
+ */
+function eachPreparedInternal(
+  method: string,
+  mapping: TypeMapping,
+  prepare: () => Promise<duckdb.Statement>,
+  args: any[]
+): void {
+  const callback = args[args.length - 1];
+  const hasCallback = typeof callback === "function";
+  const params = hasCallback ? args.slice(0, -1) : args;
+  withStatementAsync(prepare, async (stmt) => {
+    const result: ChunkedQueryResult = await (stmt as any).stream(...params);
+    const convert = rowConverter(method, mapping, stmt.columns());
+    for (;;) {
+      const chunk = await result.nextChunk();
+      if (!chunk) {
+        return;
+      }
+      for (const row of chunk) {
+        convert?.(row);
+        if (hasCallback) {
+          callback(null, row);
+        }
+      }
+    }
+  }).catch((err) => {
+    if (hasCallback) {
+      try {
+        callback(err);
+      } catch {
+        // the callback has already been given its own error
+      }
+    }
+  });
+}
+
+/*
+ * Collect the rows of all chunks of `chunks`.
+ */
+async function collectChunksInternal<T>(
+  chunks: AsyncIterable<T[]>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for await (const chunk of chunks) {
+    rows.push(...chunk);
+  }
+  return rows;
+}
+
+async function* iterateRowsInternal<T>(
+  chunks: AsyncIterable<T[]>
+): AsyncGenerator<T, void, undefined> {
+  for await (const chunk of chunks) {
+    yield* chunk;
+  }
+}
+
+/**
+ * Options for `Connection.transaction()`.
+ */
+export interface TransactionOptions {
+  /**
+   * Number of times to re-run the transaction callback when the transaction
+   * fails because of a conflict with a concurrent transaction.
+   * Defaults to 0 (no retries).
+   */
+  maxRetries?: number;
+  /**
+   * Delay in milliseconds before the first retry; doubled on each further
+   * retry. Defaults to 10.
+   */
+  retryDelayMs?: number;
+}
+
+/*
+ * The Connection or Database a Statement was created from.
+ */
+interface StatementOwner {
+  readonly instrumentation: Instrumentation;
+  readonly closed: boolean;
+  get_type_mapping_internal(): TypeMapping | null;
+  get_redact_params_internal(): boolean;
+  remove_statement_internal(stmt: Statement<any, any>): void;
+}
+
+/**
+ * Options for `Database.connect()`.
+ */
+export interface ConnectionOptions {
+  /**
+   * Number of statements prepared by `Connection.all()` that are kept, keyed
+   * by SQL text, so running the same query again reuses its prepared plan.
+   * The least recently used statement is finalized when the cache is full.
+   * Defaults to 100; 0 disables the cache.
+   */
+  statementCacheSize?: number;
+  /**
+   * How values returned by queries on this connection are converted.
+   * Defaults to the type mapping of the `Database`.
+   */
+  types?: TypeMapping;
+  /**
+   * Attached database to use as the default catalog of the connection, as
+   * with `Connection.use()`. Defaults to the database's own catalog.
+   */
+  database?: string;
+  /**
+   * Report each bound parameter of the queries on this connection as
+   * `"[redacted]"` in errors and `Instrumentation` events. Defaults to the
+   * `redactParams` option of the `Database`.
+   */
+  redactParams?: boolean;
+}
+
+/**
+ * Options for `Database.create()`: DuckDb configuration options, validated
+ * before the database is opened, and options of this library.
+ */
+export interface DatabaseOptions extends DatabaseConfig {
+  /**
+   * DuckDb configuration options not listed in `DatabaseConfig`, passed to
+   * DuckDb unchecked.
+   */
+  config?: Record<string, SettingValue>;
+  /**
+   * Extensions to load when the database is opened and on every new
+   * connection: names of installed extensions, or paths of extension files.
+   */
+  loadExtensions?: string[];
+  /**
+   * How values returned by queries are converted, for the database and,
+   * unless overridden, its connections. By default values are returned as
+   * produced by the DuckDb NodeJS API.
+   */
+  types?: TypeMapping;
+  /**
+   * Report each bound parameter as `"[redacted]"` instead of its value in
+   * errors and `Instrumentation` events, to keep sensitive values out of
+   * logs, traces and error reports. Applies to queries run on the database
+   * and, unless overridden, its connections. Defaults to false.
+   */
+  redactParams?: boolean;
+  /**
+   * Where the database runs: `"inline"` (the default) on the calling
+   * thread, or `"worker"` in a worker thread, so that queries and the
+   * materialization of their results do not block the calling thread.
+   * User defined functions and replacement scans are not supported in
+   * worker mode, as they run JavaScript functions on the database's thread.
+   */
+  mode?: "inline" | "worker";
+  /**
+   * Run statements that modify data or the schema, passed to the `all()`,
+   * `allWithMetadata()`, `exec()` and `run()` methods of the database
+   * itself, through its write queue, as with `Database.write()`; prepare
+   * them, and insert rows with `insertMany()` and appenders, on the write
+   * connection, and run prepared writes through the queue. `setSetting()`
+   * sets session settings on both connections. Other session statements
+   * (transactions, SET, USE, temporary objects) and `registerTable()` are
+   * rejected on the database itself. Defaults to false.
+   */
+  writeQueue?: boolean;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/*
+ * Finalize every statement in `statements`; each one removes itself from
+ * the set once finalized.
+ */
+async function finalizeAll(
+  statements: Set<Statement<any, any>>
+): Promise<void> {
+  await Promise.all(Array.from(statements, (stmt) => stmt.finalize()));
+}
 
-const connArrowIPCAll = methodPromisify<duckdb.Connection, duckdb.ArrowArray>(
-  duckdb.Connection.prototype.arrowIPCAll
-);
+const connAllAsync = methodPromisify<
+  duckdb.Connection,
+  duckdb.TableData
+>("all");
 
-const connExecAsync = methodPromisify<duckdb.Connection, void>(
-  duckdb.Connection.prototype.exec
-);
+const connArrowIPCAll = methodPromisify<
+  duckdb.Connection,
+  duckdb.ArrowArray
+>("arrowIPCAll");
 
-const connPrepareAsync = methodPromisify<duckdb.Connection, duckdb.Statement>(
-  duckdb.Connection.prototype.prepare
-);
+const connExecAsync = methodPromisify<duckdb.Connection, void>("exec");
 
-const connRunAsync = methodPromisify<duckdb.Connection, duckdb.Statement>(
-  duckdb.Connection.prototype.run
-);
+const connPrepareAsync = methodPromisify<
+  duckdb.Connection,
+  duckdb.Statement
+>("prepare");
 
-const connUnregisterUdfAsync = methodPromisify<duckdb.Connection, void>(
-  duckdb.Connection.prototype.unregister_udf
-);
+const connRunAsync = methodPromisify<
+  duckdb.Connection,
+  duckdb.Statement
+>("run");
 
-const connRegisterBufferAsync = methodPromisify<duckdb.Connection, void>(
-  duckdb.Connection.prototype.register_buffer
-);
+const connUnregisterUdfAsync = methodPromisify<
+  duckdb.Connection,
+  void
+>("unregister_udf");
 
-const connUnregisterBufferAsync = methodPromisify<duckdb.Connection, void>(
-  duckdb.Connection.prototype.unregister_buffer
-);
+const connRegisterBufferAsync = methodPromisify<
+  duckdb.Connection,
+  void
+>("register_buffer");
 
-const connCloseAsync = methodPromisify<duckdb.Connection, void>(
-  duckdb.Connection.prototype.close
-);
+const connUnregisterBufferAsync = methodPromisify<
+  duckdb.Connection,
+  void
+>("unregister_buffer");
+
+const connCloseAsync = methodPromisify<duckdb.Connection, void>("close");
 
 export class Connection {
   private conn: duckdb.Connection | null = null;
+  private inTransaction = false;
+  // names of the functions registered on this connection
+  private functions = new Set<string>();
+  // names of the tables registered on this connection
+  private tables = new Set<string>();
+  private statementCache: StatementCache<duckdb.Statement> | null;
+  // prepared statements not yet finalized, finalized on close
+  private preparedStatements = new Set<Statement<any, any>>();
+  private closing: Promise<void> | null = null;
+  private typeMapping: TypeMapping | null;
+  private redactParams: boolean;
+
+  /**
+   * Reports queries run on this connection; shared with the `Database`
+   * it was created from.
+   */
+  readonly instrumentation: Instrumentation;
 
   private constructor(
-    ddb: duckdb.Database,
+    private database: Database,
+    options: ConnectionOptions,
     resolve: (c: Connection) => void,
     reject: (reason: any) => void
   ) {
-    this.conn = new duckdb.Connection(ddb, (err, res: any) => {
+    this.instrumentation = database.instrumentation;
+    if (options.types) {
+      checkTypeMapping("Database.connect", options.types);
+    }
+    this.typeMapping =
+      options.types ?? database.get_type_mapping_internal();
+    this.redactParams =
+      options.redactParams ?? database.get_redact_params_internal();
+    const cacheSize = options.statementCacheSize ?? 100;
+    this.statementCache =
+      cacheSize > 0 ? new StatementCache(cacheSize, stmtFinalizeAsync) : null;
+    this.conn = openConnection(database.get_ddb_internal(), (err) => {
       if (err) {
         this.conn = null;
         reject(err);
@@ -98,39 +609,268 @@ export class Connection {
    * Static method to create a new Connection object. Provided because constructors can not return Promises,
    * and the DuckDb Node.JS API uses a callback in the Database constructor
    */
-  static create(db: Database): Promise<Connection> {
-    return new Promise((resolve, reject) => {
-      new Connection(db.get_ddb_internal(), resolve, reject);
+  static async create(
+    db: Database,
+    options: ConnectionOptions = {}
+  ): Promise<Connection> {
+    const conn = await new Promise<Connection>((resolve, reject) => {
+      new Connection(db, options, resolve, reject);
     });
+    db.add_connection_internal(conn);
+    try {
+      await db.extensions.auto_load_internal(conn);
+      if (options.database !== undefined) {
+        await conn.use(options.database);
+      }
+    } catch (err) {
+      await conn.close();
+      throw err;
+    }
+    return conn;
   }
 
-  async all(sql: string, ...args: any[]): Promise<duckdb.TableData> {
-    if (!this.conn) {
-      throw new Error("Connection.all: uninitialized connection");
+  /** Whether the connection was closed (or could not be opened). */
+  get closed(): boolean {
+    return this.conn === null;
+  }
+
+  // track statements to finalize on close -- internal use only
+  remove_statement_internal(stmt: Statement<any, any>): void {
+    this.preparedStatements.delete(stmt);
+  }
+
+  get_type_mapping_internal(): TypeMapping | null {
+    return this.typeMapping;
+  }
+
+  get_redact_params_internal(): boolean {
+    return this.redactParams;
+  }
+
+  // interrupt a cancelled query -- internal use only
+  interrupt_internal(): void {
+    this.instrumentation.interrupt_internal();
+  }
+
+  async all<T = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): Promise<T[]> {
+    const conn = this.conn;
+    if (!conn) {
+      throw new ConnectionClosedError("Connection.all");
+    }
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs("Connection.all", sql, params);
+    const context = queryContext("Connection.all", text, values, this.redactParams);
+    if (isCancellable(options)) {
+      // fetched chunk by chunk, so a cancelled query stops fetching
+      return collectChunksInternal(
+        iterateChunksInternal<T>(
+          this.instrumentation,
+          context,
+          () => connPrepareAsync(conn, text),
+          values,
+          options,
+          this.typeMapping,
+          true,
+          options.parseRow
+        )
+      );
     }
-    return connAllAsync(this.conn, sql, ...args);
+    const rows = await runQuery(
+      this.instrumentation,
+      context,
+      options,
+      () => this.allCached(conn, text, values),
+      countRows
+    );
+    return parseRows(rows, options.parseRow);
   }
 
-  async arrowIPCAll(sql: string, ...args: any[]): Promise<duckdb.ArrowArray> {
-    if (!this.conn) {
-      throw new Error("Connection.arrowIPCAll: uninitialized connection");
+  private allCached(
+    conn: duckdb.Connection,
+    text: string,
+    values: any[]
+  ): Promise<duckdb.TableData> {
+    const cache = this.cacheFor("Connection.all", text);
+    const mapping = this.typeMapping;
+    // converting rows requires the columns of a prepared statement
+    if (!cache && !mapping) {
+      return connAllAsync(conn, text, ...values);
+    }
+    return this.withStatement(cache, conn, text, (stmt) =>
+      stmtAllConvertedAsync("Connection.all", mapping, stmt, values)
+    );
+  }
+
+  /**
+   * Like `all()`, but also returns the name and type of each result column
+   * (even when the query returns no rows), the number of rows and the time
+   * taken to run the query.
+   */
+  async allWithMetadata<T = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): Promise<ResultWithMetadata<T>> {
+    const conn = this.conn;
+    if (!conn) {
+      throw new ConnectionClosedError("Connection.allWithMetadata");
+    }
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs(
+      "Connection.allWithMetadata",
+      sql,
+      params
+    );
+    const result = await runQuery(
+      this.instrumentation,
+      queryContext("Connection.allWithMetadata", text, values, this.redactParams),
+      options,
+      () =>
+        this.withStatement(
+          this.cacheFor("Connection.allWithMetadata", text),
+          conn,
+          text,
+          (stmt) =>
+            stmtAllWithMetadataAsync(
+              "Connection.allWithMetadata",
+              this.typeMapping,
+              stmt,
+              values
+            )
+        ),
+      countResultRows
+    );
+    return { ...result, rows: parseRows(result.rows, options.parseRow) };
+  }
+
+  /*
+   * Pass the statement prepared from `text` to `fn`, taking it from `cache`
+   * if given, or else finalizing it once `fn` settles.
+   */
+  private withStatement<R>(
+    cache: StatementCache<duckdb.Statement> | null,
+    conn: duckdb.Connection,
+    text: string,
+    fn: (stmt: duckdb.Statement) => Promise<R>
+  ): Promise<R> {
+    const prepare = () => connPrepareAsync(conn, text);
+    return cache
+      ? cache.use(text, prepare, fn)
+      : withStatementAsync(prepare, fn);
+  }
+
+  // Preparing multiple statements executes all but the last one, so only
+  // single statements can be cached.
+  private cacheFor(
+    method: string,
+    text: string
+  ): StatementCache<duckdb.Statement> | null {
+    const cache = this.statementCache;
+    if (
+      !cache ||
+      (!cache.has(text) && parseSql(method, text).multipleStatements)
+    ) {
+      return null;
+    }
+    return cache;
+  }
+
+  async arrowIPCAll(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): Promise<duckdb.ArrowArray> {
+    const conn = this.conn;
+    if (!conn) {
+      throw new ConnectionClosedError("Connection.arrowIPCAll");
     }
-    return connArrowIPCAll(this.conn, sql, ...args);
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs("Connection.arrowIPCAll", sql, params);
+    return runQuery(
+      this.instrumentation,
+      queryContext("Connection.arrowIPCAll", text, values, this.redactParams),
+      options,
+      () => connArrowIPCAll(conn, text, ...values)
+    );
   }
 
   /**
    * Executes the sql query and invokes the callback for each row of result data.
    * Since promises can only resolve once, this method uses the same callback
-   * based API of the underlying DuckDb NodeJS API
+   * based API of the underlying DuckDb NodeJS API.
    * @param sql query to execute
    * @param args parameters for template query
    * @returns
    */
-  each(sql: string, ...args: [...any, Callback<duckdb.RowData>] | []): void {
+  each(
+    sql: string | SqlQuery,
+    ...args: [...any, Callback<duckdb.RowData>] | []
+  ): void {
     if (!this.conn) {
-      throw new Error("Connection.each: uninitialized connection");
+      throw new ConnectionClosedError("Connection.each");
+    }
+    const [text, ...params] = queryArgs("Connection.each", sql, args);
+    if (this.typeMapping) {
+      const conn = this.conn;
+      eachPreparedInternal(
+        "Connection.each",
+        this.typeMapping,
+        () => connPrepareAsync(conn, text),
+        params
+      );
+      return;
     }
-    this.conn.each(sql, ...args);
+    this.conn.each(text, ...(params as any));
+  }
+
+  /**
+   * Executes the sql query and returns an async iterator over the result rows.
+   * Rows are fetched from DuckDb one chunk at a time as the iterator is consumed,
+   * so arbitrarily large results can be processed without materializing them.
+   * Exiting a `for await` loop early releases the underlying statement.
+   * @param sql query to execute
+   * @param args parameters for template query
+   * @returns async iterator over result rows
+   */
+  iterate<T = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): AsyncGenerator<T, void, undefined> {
+    return iterateRowsInternal(this.iterateChunks<T>(sql, ...args));
+  }
+
+  /**
+   * Like `iterate()`, but yields each chunk of rows as produced by DuckDb
+   * instead of individual rows.
+   * @param sql query to execute
+   * @param args parameters for template query
+   * @returns async iterator over chunks of result rows
+   */
+  iterateChunks<T = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): AsyncGenerator<T[], void, undefined> {
+    const conn = this.conn;
+    if (!conn) {
+      throw new ConnectionClosedError("Connection.iterateChunks");
+    }
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs(
+      "Connection.iterateChunks",
+      sql,
+      params
+    );
+    return iterateChunksInternal(
+      this.instrumentation,
+      queryContext("Connection.iterateChunks", text, values, this.redactParams),
+      () => connPrepareAsync(conn, text),
+      values,
+      options,
+      this.typeMapping,
+      true,
+      options.parseRow
+    );
   }
 
   /**
@@ -139,45 +879,324 @@ export class Connection {
    * @param args parameters if `sql` is a parameterized template
    * @returns `Promise<void>` that resolves when all statements have been executed.
    */
-  async exec(sql: string, ...args: any[]): Promise<void> {
+  async exec(sql: string | SqlQuery, ...args: any[]): Promise<void> {
+    const conn = this.conn;
+    if (!conn) {
+      throw new ConnectionClosedError("Connection.exec");
+    }
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs("Connection.exec", sql, params);
+    const context = queryContext("Connection.exec", text, values, this.redactParams);
+    return runQuery(this.instrumentation, context, options, async () => {
+      if (values.length > 0) {
+        // exec() can not bind parameters, but run() can
+        await connRunAsync(conn, text, ...values);
+        return;
+      }
+      return connExecAsync(conn, text);
+    });
+  }
+
+  /**
+   * Make an attached database (and optionally one of its schemas) the
+   * default catalog of this connection, so unqualified names in its queries
+   * resolve there. Other connections are not affected. Cached prepared
+   * statements are dropped, as they were bound to the previous catalog.
+   */
+  async use(database: string, schema?: string): Promise<void> {
     if (!this.conn) {
-      throw new Error("Connection.exec: uninitialized connection");
+      throw new ConnectionClosedError("Connection.use");
     }
-    return connExecAsync(this.conn, sql, ...args);
+    await use(this, database, schema);
+    await this.statementCache?.clear();
   }
 
-  prepareSync(sql: string, ...args: any[]): Statement {
+  /**
+   * Runs `fn` inside a transaction on this connection. The transaction is
+   * committed if the promise returned by `fn` resolves, and rolled back if
+   * it rejects, in which case the rejection is re-thrown.
+   *
+   * DuckDb does not support savepoints, so calling `transaction()` again from
+   * within `fn` is rejected rather than silently joining the outer transaction.
+   * @param fn callback that performs the transactional work; it receives this
+   *           connection as its argument
+   * @param options retry behavior on transaction conflicts
+   * @returns `Promise` that resolves to the value returned by `fn`
+   */
+  async transaction<T>(
+    fn: (tx: Connection) => Promise<T>,
+    options: TransactionOptions = {}
+  ): Promise<T> {
     if (!this.conn) {
-      throw new Error("Connection.prepareSync: uninitialized connection");
+      throw new ConnectionClosedError("Connection.transaction");
+    }
+    if (this.inTransaction) {
+      throw new DuckDbAsyncError(
+        "Connection.transaction: nested transactions are not supported (DuckDb has no SAVEPOINT support)",
+        "Connection.transaction"
+      );
+    }
+    const maxRetries = options.maxRetries ?? 0;
+    let retryDelayMs = options.retryDelayMs ?? 10;
+    // set before BEGIN is issued, and kept between retries, so concurrent
+    // calls are rejected as nested rather than failing in DuckDb
+    this.inTransaction = true;
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await this.runTransaction(fn);
+        } catch (err) {
+          if (
+            attempt >= maxRetries ||
+            !(err instanceof TransactionConflictError)
+          ) {
+            throw err;
+          }
+          await delay(retryDelayMs);
+          retryDelayMs *= 2;
+        }
+      }
+    } finally {
+      this.inTransaction = false;
     }
-    const ddbStmt = this.conn.prepare(sql, ...(args as any));
-    return Statement.create_internal(ddbStmt);
   }
 
-  async prepare(sql: string, ...args: any[]): Promise<Statement> {
+  private async runTransaction<T>(
+    fn: (tx: Connection) => Promise<T>
+  ): Promise<T> {
+    await this.exec("BEGIN TRANSACTION");
+    try {
+      const result = await fn(this);
+      await this.exec("COMMIT");
+      return result;
+    } catch (err) {
+      // A failed COMMIT has already aborted the transaction, in which case
+      // ROLLBACK fails too; the original error is the one worth reporting.
+      await this.exec("ROLLBACK").catch(() => undefined);
+      throw err;
+    }
+  }
+
+  prepareSync<TParams extends any[] = any[], TRow = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): Statement<TParams, TRow> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.prepareSync");
+    }
+    const { text, names } = parseSql(
+      "Connection.prepareSync",
+      queryText("Connection.prepareSync", sql)
+    );
+    const ddbStmt = this.conn.prepare(text, ...(args as any));
+    const prepared = Statement.create_internal<TParams, TRow>(
+      ddbStmt,
+      this,
+      names
+    );
+    this.preparedStatements.add(prepared);
+    return prepared;
+  }
+
+  async prepare<TParams extends any[] = any[], TRow = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): Promise<Statement<TParams, TRow>> {
     if (!this.conn) {
-      throw new Error("Connection.prepare: uninitialized connection");
+      throw new ConnectionClosedError("Connection.prepare");
     }
-    const stmt = await connPrepareAsync(this.conn, sql, ...args);
-    return Statement.create_internal(stmt);
+    const conn = this.conn;
+    const { text, names } = parseSql(
+      "Connection.prepare",
+      queryText("Connection.prepare", sql)
+    );
+    const stmt = await runQuery(
+      this.instrumentation,
+      { method: "Connection.prepare", sql: text },
+      {},
+      () => connPrepareAsync(conn, text, ...args)
+    );
+    const prepared = Statement.create_internal<TParams, TRow>(
+      stmt,
+      this,
+      names
+    );
+    this.preparedStatements.add(prepared);
+    return prepared;
   }
 
-  runSync(sql: string, ...args: any[]): Statement {
+  runSync(sql: string | SqlQuery, ...args: any[]): Statement {
     if (!this.conn) {
-      throw new Error("Connection.runSync: uninitialized connection");
+      throw new ConnectionClosedError("Connection.runSync");
     }
+    const [text, ...params] = queryArgs("Connection.runSync", sql, args);
     // We need the 'as any' cast here, because run dynamically checks
     // types of args to determine if a callback function was passed in
-    const ddbStmt = this.conn.run(sql, ...(args as any));
-    return Statement.create_internal(ddbStmt);
+    const ddbStmt = this.conn.run(text, ...(params as any));
+    const statement = Statement.create_internal(ddbStmt, this);
+    this.preparedStatements.add(statement);
+    return statement;
+  }
+
+  async run(sql: string | SqlQuery, ...args: any[]): Promise<Statement> {
+    const conn = this.conn;
+    if (!conn) {
+      throw new ConnectionClosedError("Connection.run");
+    }
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs("Connection.run", sql, params);
+    const stmt = await runQuery(
+      this.instrumentation,
+      queryContext("Connection.run", text, values, this.redactParams),
+      options,
+      () => connRunAsync(conn, text, ...values)
+    );
+    const statement = Statement.create_internal(stmt, this);
+    this.preparedStatements.add(statement);
+    return statement;
   }
 
-  async run(sql: string, ...args: any[]): Promise<Statement> {
+  /**
+   * Create an `Appender` that inserts rows into `table` in batches.
+   * @param table table name, or schema-qualified name as an array
+   */
+  createAppender(
+    table: string | string[],
+    options?: AppenderOptions
+  ): Appender {
     if (!this.conn) {
-      throw new Error("Connection.runSync: uninitialized connection");
+      throw new ConnectionClosedError("Connection.createAppender");
     }
-    const stmt = await connRunAsync(this.conn, sql, ...args);
-    return Statement.create_internal(stmt);
+    return Appender.create_internal(this, table, options);
+  }
+
+  /**
+   * Insert `rows` into `table` in batches of `options.batchSize` rows. Each
+   * batch is inserted atomically; if one fails, a `BulkInsertError` reports
+   * how many rows were inserted before it, and the rows that were not. If
+   * a row can not be appended, the rows buffered before it are discarded
+   * rather than inserted.
+   * @param table table name, or schema-qualified name as an array
+   * @returns `Promise` that resolves to the number of rows inserted
+   */
+  async insertMany(
+    table: string | string[],
+    rows: Iterable<InsertRow> | AsyncIterable<InsertRow>,
+    options?: AppenderOptions
+  ): Promise<number> {
+    const appender = this.createAppender(table, options);
+    try {
+      for await (const row of rows) {
+        await appender.append(row);
+      }
+    } catch (err) {
+      await appender.discard();
+      throw err;
+    }
+    return appender.close();
+  }
+
+  /**
+   * Make `rows` queryable as the temporary table `name`, replacing an
+   * earlier one, e.g. to join in-memory data with DuckDb tables. The
+   * columns are inferred from the rows unless `options.schema` is given.
+   * The table is only visible on this connection, and is dropped
+   * when it is closed.
+   * @returns `Promise` that resolves to the number of rows inserted
+   */
+  async registerTable(
+    name: string,
+    rows: TableRows,
+    options?: RegisterTableOptions
+  ): Promise<number> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.registerTable");
+    }
+    return registerTable(
+      "Connection.registerTable",
+      this,
+      this.tables,
+      name,
+      rows,
+      options
+    );
+  }
+
+  /**
+   * Drop a table registered with `registerTable()`.
+   */
+  async unregisterTable(name: string): Promise<void> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.unregisterTable");
+    }
+    if (this.tables.delete(name)) {
+      await dropTable(this, name);
+    }
+  }
+
+  /**
+   * Define a scalar function on this connection. Unlike `register_udf()`,
+   * the types of the function's arguments and return value are declared
+   * with `Types`, from which the argument types of `fn` are inferred:
+   *
+   * ```typescript
+   * await conn.defineFunction({
+   *   name: "repeat_str",
+   *   params: [Types.VARCHAR, Types.INTEGER],
+   *   returns: Types.VARCHAR,
+   *   fn: (s, n) => s.repeat(n),
+   * });
+   * ```
+   *
+   * Arguments are converted with the connection's type mapping; declare
+   * 64-bit integer parameters with `typesFor()` if it maps them to numbers
+   * or strings. The function is removed when the connection is closed. Use
+   * `Database.defineFunction()` to define a function on all connections.
+   */
+  async defineFunction<
+    P extends readonly SqlType<any>[] | [],
+    R extends SqlType<any>,
+    N extends NullHandling = "propagate"
+  >(definition: FunctionDefinition<P, R, N>): Promise<void> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.defineFunction");
+    }
+    const compiled = compileFunction(
+      "Connection.defineFunction",
+      definition as FunctionDefinition<any, any, any>,
+      this.typeMapping
+    );
+    if (this.has_function_internal(compiled.name)) {
+      throw new DuckDbAsyncError(
+        `Connection.defineFunction: function ${compiled.name} is already defined`,
+        "Connection.defineFunction"
+      );
+    }
+    this.register_function_internal(compiled);
+  }
+
+  /**
+   * Remove a function defined with `defineFunction()` or `register_udf()`.
+   */
+  async removeFunction(name: string): Promise<void> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.removeFunction");
+    }
+    await connUnregisterUdfAsync(this.conn, name);
+    this.functions.delete(name);
+  }
+
+  // used by Database to define its functions -- internal use only
+  has_function_internal(name: string): boolean {
+    return this.functions.has(name);
+  }
+
+  register_function_internal(compiled: CompiledFunction): void {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.defineFunction");
+    }
+    this.conn.register_udf(compiled.name, compiled.returns, compiled.fn);
+    this.functions.add(compiled.name);
   }
 
   register_udf(
@@ -186,15 +1205,17 @@ export class Connection {
     fun: (...args: any[]) => any
   ): void {
     if (!this.conn) {
-      throw new Error("Connection.register_udf: uninitialized connection");
+      throw new ConnectionClosedError("Connection.register_udf");
     }
     this.conn.register_udf(name, return_type, fun);
+    this.functions.add(name);
   }
   async unregister_udf(name: string): Promise<void> {
     if (!this.conn) {
-      throw new Error("Connection.unregister_udf: uninitialized connection");
+      throw new ConnectionClosedError("Connection.unregister_udf");
     }
-    return connUnregisterUdfAsync(this.conn, name);
+    await connUnregisterUdfAsync(this.conn, name);
+    this.functions.delete(name);
   }
   register_bulk(
     name: string,
@@ -202,26 +1223,127 @@ export class Connection {
     fun: (...args: any[]) => any
   ): void {
     if (!this.conn) {
-      throw new Error("Connection.register_bulk: uninitialized connection");
+      throw new ConnectionClosedError("Connection.register_bulk");
     }
     this.conn.register_bulk(name, return_type, fun);
   }
 
-  stream(sql: any, ...args: any[]): duckdb.QueryResult {
+  stream(sql: string | SqlQuery, ...args: any[]): duckdb.QueryResult {
     if (!this.conn) {
-      throw new Error("Connection.stream: uninitialized connection");
+      throw new ConnectionClosedError("Connection.stream");
     }
-    return this.conn.stream(sql, ...args);
+    return this.conn.stream(...queryArgs("Connection.stream", sql, args));
   }
 
   arrowIPCStream(
-    sql: any,
+    sql: string | SqlQuery,
     ...args: any[]
   ): Promise<duckdb.IpcResultStreamIterator> {
     if (!this.conn) {
-      throw new Error("Connection.arrowIPCStream: uninitialized connection");
+      throw new ConnectionClosedError("Connection.arrowIPCStream");
+    }
+    return this.conn.arrowIPCStream(
+      ...queryArgs("Connection.arrowIPCStream", sql, args)
+    );
+  }
+
+  /**
+   * Stream the result of a query as a Node `Readable` of CSV, NDJSON or
+   * Arrow IPC bytes, e.g. to pipe into an HTTP response or a file.
+   * Parameters are passed by building the query with the `sql` template tag.
+   * An error raised mid-stream destroys the stream with that error.
+   */
+  toStream(sql: string | SqlQuery, options: ToStreamOptions): Readable {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.toStream");
+    }
+    return toNodeStream("Connection.toStream", this, sql, options);
+  }
+
+  /**
+   * Like `toStream()`, but returns a web `ReadableStream`.
+   */
+  toWebStream(
+    sql: string | SqlQuery,
+    options: ToStreamOptions
+  ): ReadableStream<Uint8Array> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.toWebStream");
     }
-    return this.conn.arrowIPCStream(sql, ...args);
+    return toWebStream("Connection.toWebStream", this, sql, options);
+  }
+
+  /**
+   * Read Parquet files. `paths` may contain glob patterns, e.g.
+   * `"data/*.parquet"`. Use the `readParquet()` function to query files with
+   * SQL instead of reading all rows.
+   */
+  async readParquet<T = duckdb.RowData>(
+    paths: string | string[],
+    options?: ReadParquetOptions
+  ): Promise<T[]> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.readParquet");
+    }
+    return this.all<T>(sql`SELECT * FROM ${readParquet(paths, options)}`);
+  }
+
+  /**
+   * Read CSV files. See `readParquet()`.
+   */
+  async readCsv<T = duckdb.RowData>(
+    paths: string | string[],
+    options?: ReadCsvOptions
+  ): Promise<T[]> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.readCsv");
+    }
+    return this.all<T>(sql`SELECT * FROM ${readCsv(paths, options)}`);
+  }
+
+  /**
+   * Read JSON files. See `readParquet()`.
+   */
+  async readJson<T = duckdb.RowData>(
+    paths: string | string[],
+    options?: ReadJsonOptions
+  ): Promise<T[]> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.readJson");
+    }
+    return this.all<T>(sql`SELECT * FROM ${readJson(paths, options)}`);
+  }
+
+  /**
+   * Export a table, or the result of a query built with the `sql` template
+   * tag, to a Parquet, CSV or JSON file with COPY ... TO.
+   * @param source table name, schema-qualified name as an array, or query
+   * @param path file to write, or directory when partitioning
+   * @returns `Promise` that resolves to the number of rows written
+   */
+  async copyTo(
+    source: CopySource,
+    path: string,
+    options?: CopyToOptions
+  ): Promise<number> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.copyTo");
+    }
+    return copyTo("Connection.copyTo", this, source, path, options);
+  }
+
+  /**
+   * Like `copyTo()`, but returns the exported file as a `Buffer`, e.g. to
+   * send in an HTTP response.
+   */
+  async copyToBuffer(
+    source: CopySource,
+    options: CopyToBufferOptions
+  ): Promise<Buffer> {
+    if (!this.conn) {
+      throw new ConnectionClosedError("Connection.copyToBuffer");
+    }
+    return copyToBuffer("Connection.copyToBuffer", this, source, options);
   }
 
   register_buffer(
@@ -230,167 +1352,607 @@ export class Connection {
     force: boolean
   ): Promise<void> {
     if (!this.conn) {
-      throw new Error("Connection.register_buffer: uninitialized connection");
+      throw new ConnectionClosedError("Connection.register_buffer");
     }
     return connRegisterBufferAsync(this.conn, name, array, force);
   }
 
   unregister_buffer(name: string): Promise<void> {
     if (!this.conn) {
-      throw new Error("Connection.unregister_buffer: uninitialized connection");
+      throw new ConnectionClosedError("Connection.unregister_buffer");
     }
     return connUnregisterBufferAsync(this.conn, name);
   }
 
+  /**
+   * Close the connection, after finalizing all statements prepared on it.
+   */
   async close(): Promise<void> {
-    if (!this.conn) {
-      throw new Error("Connection.close: uninitialized connection");
+    // a connection may be closed concurrently by its pool and its database
+    if (this.closing) {
+      return this.closing;
     }
-    await connCloseAsync(this.conn);
+    const conn = this.conn;
+    if (!conn) {
+      throw new ConnectionClosedError("Connection.close");
+    }
+    this.closing = this.closeInternal(conn).finally(() => {
+      this.closing = null;
+    });
+    return this.closing;
+  }
+
+  private async closeInternal(conn: duckdb.Connection): Promise<void> {
+    await finalizeAll(this.preparedStatements);
+    await this.statementCache?.clear();
+    await Promise.all(
+      Array.from(this.functions, (name) => connUnregisterUdfAsync(conn, name))
+    );
+    this.functions.clear();
+    // temporary tables are dropped with the connection
+    this.tables.clear();
+    await connCloseAsync(conn);
     this.conn = null;
-    return;
+    this.database.remove_connection_internal(this);
+  }
+
+  /**
+   * Closes the connection unless it is already closed, so it can be
+   * declared with `await using`.
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    if (this.conn) {
+      await this.close();
+    }
   }
 }
 
-const dbCloseAsync = methodPromisify<duckdb.Database, void>(
-  duckdb.Database.prototype.close
-);
-const dbAllAsync = methodPromisify<duckdb.Database, duckdb.TableData>(
-  duckdb.Database.prototype.all
-);
-const dbArrowIPCAll = methodPromisify<duckdb.Database, duckdb.ArrowArray>(
-  duckdb.Database.prototype.arrowIPCAll
-);
+const dbCloseAsync = methodPromisify<duckdb.Database, void>("close");
+const dbAllAsync = methodPromisify<duckdb.Database, duckdb.TableData>("all");
+const dbArrowIPCAll = methodPromisify<
+  duckdb.Database,
+  duckdb.ArrowArray
+>("arrowIPCAll");
 
-const dbExecAsync = methodPromisify<duckdb.Database, void>(
-  duckdb.Database.prototype.exec
-);
+const dbExecAsync = methodPromisify<duckdb.Database, void>("exec");
 
-const dbPrepareAsync = methodPromisify<duckdb.Database, duckdb.Statement>(
-  duckdb.Database.prototype.prepare
-);
+const dbPrepareAsync = methodPromisify<
+  duckdb.Database,
+  duckdb.Statement
+>("prepare");
 
-const dbRunAsync = methodPromisify<duckdb.Database, duckdb.Statement>(
-  duckdb.Database.prototype.run
-);
+const dbRunAsync = methodPromisify<duckdb.Database, duckdb.Statement>("run");
 
-const dbUnregisterUdfAsync = methodPromisify<duckdb.Database, void>(
-  duckdb.Database.prototype.unregister_udf
-);
+const dbUnregisterUdfAsync = methodPromisify<
+  duckdb.Database,
+  void
+>("unregister_udf");
 
-const dbSerializeAsync = methodPromisify<duckdb.Database, void>(
-  duckdb.Database.prototype.serialize
-);
+const dbSerializeAsync = methodPromisify<duckdb.Database, void>("serialize");
 
-const dbParallelizeAsync = methodPromisify<duckdb.Database, void>(
-  duckdb.Database.prototype.parallelize
-);
+const dbParallelizeAsync = methodPromisify<
+  duckdb.Database,
+  void
+>("parallelize");
 
-const dbWaitAsync = methodPromisify<duckdb.Database, void>(
-  duckdb.Database.prototype.wait
-);
+const dbWaitAsync = methodPromisify<duckdb.Database, void>("wait");
 
-const dbRegisterBufferAsync = methodPromisify<duckdb.Database, void>(
-  duckdb.Database.prototype.register_buffer
-);
+const dbRegisterBufferAsync = methodPromisify<
+  duckdb.Database,
+  void
+>("register_buffer");
 
-const dbUnregisterBufferAsync = methodPromisify<duckdb.Database, void>(
-  duckdb.Database.prototype.unregister_buffer
-);
+const dbUnregisterBufferAsync = methodPromisify<
+  duckdb.Database,
+  void
+>("unregister_buffer");
 
 export class Database {
   private db: duckdb.Database | null = null;
+  private pools = new Set<ConnectionPool>();
+  private connections = new Set<Connection>();
+  // statements prepared on the database itself, finalized on close
+  private preparedStatements = new Set<Statement<any, any>>();
+  private functions = new Map<string, CompiledFunction>();
+  private tables = new Set<string>();
+  private typeMapping: TypeMapping | null;
+  private redactParams: boolean;
+  private writeQueue = WriteQueue.create_internal(this);
+  private queueWrites: boolean;
+
+  /**
+   * Reports queries run on this database, and on all connections and
+   * statements created from it.
+   */
+  readonly instrumentation = new Instrumentation();
+
+  /** Installs and loads extensions. */
+  readonly extensions: Extensions;
+
+  /** Lists databases, schemas, tables, views and functions. */
+  readonly schema: Catalog;
+
+  private constructor(
+    path: string,
+    options: number | DatabaseOptions | DatabaseConfigStrings,
+    resolve: (db: Database) => void,
+    reject: (reason: any) => void
+  ) {
+    if (typeof options === "number") {
+      options = {
+        access_mode: options == duckdb.OPEN_READONLY ? "read_only" : "read_write"
+      };
+    }
+    const {
+      mode,
+      types,
+      config,
+      loadExtensions,
+      writeQueue,
+      redactParams,
+      ...settings
+    } = options as DatabaseOptions;
+    if (types) {
+      checkTypeMapping("Database.create", types);
+    }
+    this.typeMapping = types ?? null;
+    this.redactParams = redactParams ?? false;
+    this.queueWrites = writeQueue ?? false;
+    this.instrumentation.set_interrupt_internal(() => this.db?.interrupt());
+    this.extensions = Extensions.create_internal(this, loadExtensions);
+    this.schema = Catalog.create_internal(this);
+    const record = configRecord("Database.create", { ...settings }, config);
+    record["duckdb_api"] = "nodejs-async";
+
+    const opened = (err: unknown) => {
+      if (err) {
+        reject(err);
+      }
+      resolve(this);
+    };
+    this.db =
+      mode === "worker"
+        ? openWorkerDatabase(path, record, opened)
+        : new duckdb.Database(path, record, opened);
+  }
+
+  /**
+   * Static method to create a new Database object. Provided because constructors can not return Promises,
+   * and the DuckDb Node.JS API uses a callback in the Database constructor
+   */
+
+  /**
+   * Static method to create a new Database object from the specified file. Provided as a static
+   * method because some initialization may happen asynchronously.
+   * @param path path to database file to open, or ":memory:"
+   * @param options `DatabaseOptions`, or `OPEN_READONLY` / `OPEN_READWRITE`
+   * @returns a promise that resolves to newly created Database object
+   */
+  static create(
+    path: string,
+    options?: number | DatabaseOptions
+  ): Promise<Database>;
+  /**
+   * Open the database with options given as strings, validated like
+   * `DatabaseOptions`.
+   * @deprecated pass `DatabaseOptions` instead of a record of strings.
+   */
+  static create(
+    path: string,
+    config: DatabaseConfigStrings
+  ): Promise<Database>;
+  static async create(
+    path: string,
+    options?: number | DatabaseOptions | DatabaseConfigStrings
+  ): Promise<Database> {
+    // defaults to read_write
+    const trueOptions = options ?? { access_mode: "read_write" };
+    const db = await new Promise<Database>((resolve, reject) => {
+      new Database(path, trueOptions, resolve, reject);
+    });
+    try {
+      await db.extensions.auto_load_internal(db);
+    } catch (err) {
+      await db.close();
+      throw err;
+    }
+    return db;
+  }
+
+  /** Whether the database was closed (or could not be opened). */
+  get closed(): boolean {
+    return this.db === null;
+  }
+
+  /**
+   * Close the database. Connection pools are drained first, then all open
+   * connections are closed and all prepared statements finalized, so none
+   * of them are left pointing at the closed database.
+   */
+  async close(): Promise<void> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.close");
+    }
+    await this.writeQueue.drain();
+    await Promise.all(Array.from(this.pools, (pool) => pool.drain()));
+    await Promise.all(Array.from(this.connections, (conn) => conn.close()));
+    await finalizeAll(this.preparedStatements);
+    const db = this.db;
+    await Promise.all(
+      Array.from(this.functions.keys(), (name) =>
+        dbUnregisterUdfAsync(db, name)
+      )
+    );
+    this.functions.clear();
+    this.tables.clear();
+    await dbCloseAsync(this.db);
+    this.db = null;
+    return;
+  }
+
+  // accessor to get internal duckdb Database object -- internal use only
+  get_ddb_internal(): duckdb.Database {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.get_ddb_internal");
+    }
+    return this.db;
+  }
+
+  // track pools to drain on close -- internal use only
+  add_pool_internal(pool: ConnectionPool): void {
+    this.pools.add(pool);
+  }
+
+  remove_pool_internal(pool: ConnectionPool): void {
+    this.pools.delete(pool);
+  }
+
+  remove_statement_internal(stmt: Statement<any, any>): void {
+    this.preparedStatements.delete(stmt);
+  }
+
+  get_type_mapping_internal(): TypeMapping | null {
+    return this.typeMapping;
+  }
+
+  get_redact_params_internal(): boolean {
+    return this.redactParams;
+  }
+
+  // interrupt a cancelled query -- internal use only
+  interrupt_internal(): void {
+    this.instrumentation.interrupt_internal();
+  }
+
+  // track connections to define functions on and close -- internal use only
+  add_connection_internal(conn: Connection): void {
+    this.connections.add(conn);
+    for (const compiled of this.functions.values()) {
+      conn.register_function_internal(compiled);
+    }
+  }
+
+  remove_connection_internal(conn: Connection): void {
+    this.connections.delete(conn);
+  }
+
+  connect(options?: ConnectionOptions): Promise<Connection> {
+    return Connection.create(this, options);
+  }
+
+  /**
+   * Run `fn` on the database's dedicated write connection, after all writes
+   * queued before it have finished, so writes run one at a time in FIFO
+   * order and do not conflict with each other. Queries on other connections
+   * are not held up. Writes queued from within `fn` run right away on the
+   * same connection, as part of this write. `fn` should not keep using the
+   * connection after its promise settles, and should not close it.
+   * @returns `Promise` that resolves to the value returned by `fn`
+   */
+  async write<T>(fn: (conn: Connection) => Promise<T>): Promise<T> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.write");
+    }
+    return this.writeQueue.run(fn);
+  }
+
+  /*
+   * Whether `sql` is a write to run through the write queue. Session
+   * statements are rejected with the queue, as they would only affect the
+   * default connection, not the write connection.
+   */
+  private isQueuedWrite(method: string, sql: string | SqlQuery): boolean {
+    if (!this.queueWrites) {
+      return false;
+    }
+    const text = typeof sql === "string" ? sql : sql.text;
+    if (isSessionStatement(text)) {
+      throw new DuckDbAsyncError(
+        `${method}: transactions, SET, USE and temporary objects are not supported with writeQueue; run them inside write() or on a Connection`,
+        method
+      );
+    }
+    return isWriteStatement(text);
+  }
+
+  /**
+   * Create a pool of connections to this database.
+   * See `ConnectionPool.create()`.
+   */
+  createPool(options?: PoolOptions): Promise<ConnectionPool> {
+    return ConnectionPool.create(this, options);
+  }
+
+  /**
+   * The current value of every DuckDb setting, as strings, keyed by name.
+   */
+  async getSettings(): Promise<Record<string, string>> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.getSettings");
+    }
+    return getSettings(this);
+  }
 
-  private constructor(
-    path: string,
-    accessMode: number | Record<string, string>,
-    resolve: (db: Database) => void,
-    reject: (reason: any) => void
-  ) {
-    if (typeof accessMode === "number") {
-      accessMode = {
-        access_mode: accessMode == duckdb.OPEN_READONLY ? "read_only" : "read_write"
-      };
+  /**
+   * The current value of a DuckDb setting, as returned by `current_setting()`.
+   */
+  async getSetting(name: string): Promise<unknown> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.getSetting");
     }
-    accessMode["duckdb_api"] = "nodejs-async";
+    return getSetting(this, name);
+  }
 
-    this.db = new duckdb.Database(path, accessMode, (err, res) => {
-      if (err) {
-        reject(err);
-      }
-      resolve(this);
-    });
+  /**
+   * Change a DuckDb setting with `SET`. Values of the settings listed in
+   * `DatabaseConfig` are validated first. Session settings only apply to
+   * queries run on the database itself, not on its connections.
+   */
+  async setSetting(
+    name: string,
+    value: SettingValue,
+    options?: SetSettingOptions
+  ): Promise<void> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.setSetting");
+    }
+    return setSetting(this, name, value, options);
   }
 
   /**
-   * Static method to create a new Database object. Provided because constructors can not return Promises,
-   * and the DuckDb Node.JS API uses a callback in the Database constructor
+   * Run the SET `statement` of `setSetting()`. With `writeQueue`, session
+   * settings are set on the write connection as well as on the default one.
+   * This is intended for internal use only.
    */
+  async set_setting_internal(
+    statement: string,
+    global: boolean
+  ): Promise<void> {
+    const db = this.db;
+    if (!db) {
+      throw new DatabaseClosedError("Database.setSetting");
+    }
+    if (!this.queueWrites || global) {
+      return this.exec(statement);
+    }
+    await this.write((conn) => conn.exec(statement));
+    await this.execDefault(db, statement, []);
+  }
 
   /**
-   * Static method to create a new Database object from the specified file. Provided as a static
-   * method because some initialization may happen asynchronously.
-   * @param path path to database file to open, or ":memory:"
-   * @returns a promise that resolves to newly created Database object
+   * Attach a database file, which then is available to all connections
+   * under its alias. The path and alias are quoted, so they may contain any
+   * characters.
+   * @param path path of the database file
+   * @returns `Promise` that resolves to the alias the database is attached as
    */
-  static create(
-    path: string,
-    accessMode?: number | Record<string, string>
-  ): Promise<Database> {
-    const trueAccessMode = accessMode ?? duckdb.OPEN_READWRITE; // defaults to OPEN_READWRITE
-    return new Promise((resolve, reject) => {
-      new Database(path, trueAccessMode, resolve, reject);
-    });
+  async attach(path: string, options?: AttachOptions): Promise<string> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.attach");
+    }
+    return attach("Database.attach", this, path, options);
   }
 
-  async close(): Promise<void> {
+  /** Detach the database attached as `alias`. */
+  async detach(alias: string): Promise<void> {
     if (!this.db) {
-      throw new Error("Database.close: uninitialized database");
+      throw new DatabaseClosedError("Database.detach");
     }
-    await dbCloseAsync(this.db);
-    this.db = null;
-    return;
+    return detach(this, alias);
   }
 
-  // accessor to get internal duckdb Database object -- internal use only
-  get_ddb_internal(): duckdb.Database {
+  /**
+   * The databases attached to this database, including the database itself
+   * but not DuckDb's internal `system` and `temp` databases.
+   */
+  async listAttached(): Promise<DatabaseInfo[]> {
     if (!this.db) {
-      throw new Error("Database.get_ddb_internal: uninitialized database");
+      throw new DatabaseClosedError("Database.listAttached");
     }
-    return this.db;
+    return this.schema.listDatabases();
   }
 
-  connect(): Promise<Connection> {
-    return Connection.create(this);
+  async all<T = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): Promise<T[]> {
+    const db = this.db;
+    if (!db) {
+      throw new DatabaseClosedError("Database.all");
+    }
+    if (this.isQueuedWrite("Database.all", sql)) {
+      return this.write((conn) => conn.all<T>(sql, ...args));
+    }
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs("Database.all", sql, params);
+    const context = queryContext("Database.all", text, values, this.redactParams);
+    if (isCancellable(options)) {
+      // fetched chunk by chunk, so a cancelled query stops fetching
+      return collectChunksInternal(
+        iterateChunksInternal<T>(
+          this.instrumentation,
+          context,
+          () => dbPrepareAsync(db, text),
+          values,
+          options,
+          this.typeMapping,
+          true,
+          options.parseRow
+        )
+      );
+    }
+    const rows = await runQuery(
+      this.instrumentation,
+      context,
+      options,
+      () => {
+        const mapping = this.typeMapping;
+        if (!mapping) {
+          return dbAllAsync(db, text, ...values);
+        }
+        // converting rows requires the columns of a prepared statement
+        return withStatementAsync(
+          () => dbPrepareAsync(db, text),
+          (stmt) => stmtAllConvertedAsync("Database.all", mapping, stmt, values)
+        );
+      },
+      countRows
+    );
+    return parseRows(rows, options.parseRow);
   }
 
-  async all(sql: string, ...args: any[]): Promise<duckdb.TableData> {
-    if (!this.db) {
-      throw new Error("Database.all: uninitialized database");
+  /**
+   * Like `all()`, but also returns the name and type of each result column
+   * (even when the query returns no rows), the number of rows and the time
+   * taken to run the query.
+   */
+  async allWithMetadata<T = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): Promise<ResultWithMetadata<T>> {
+    const db = this.db;
+    if (!db) {
+      throw new DatabaseClosedError("Database.allWithMetadata");
     }
-    return dbAllAsync(this.db, sql, ...args);
+    if (this.isQueuedWrite("Database.allWithMetadata", sql)) {
+      return this.write((conn) => conn.allWithMetadata<T>(sql, ...args));
+    }
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs(
+      "Database.allWithMetadata",
+      sql,
+      params
+    );
+    const result = await runQuery(
+      this.instrumentation,
+      queryContext("Database.allWithMetadata", text, values, this.redactParams),
+      options,
+      () =>
+        withStatementAsync(
+          () => dbPrepareAsync(db, text),
+          (stmt) =>
+            stmtAllWithMetadataAsync(
+              "Database.allWithMetadata",
+              this.typeMapping,
+              stmt,
+              values
+            )
+        ),
+      countResultRows
+    );
+    return { ...result, rows: parseRows(result.rows, options.parseRow) };
   }
 
-  async arrowIPCAll(sql: string, ...args: any[]): Promise<duckdb.ArrowArray> {
-    if (!this.db) {
-      throw new Error("Database.arrowIPCAll: uninitialized connection");
+  async arrowIPCAll(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): Promise<duckdb.ArrowArray> {
+    const db = this.db;
+    if (!db) {
+      throw new DatabaseClosedError("Database.arrowIPCAll");
     }
-    return dbArrowIPCAll(this.db, sql, ...args);
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs("Database.arrowIPCAll", sql, params);
+    return runQuery(
+      this.instrumentation,
+      queryContext("Database.arrowIPCAll", text, values, this.redactParams),
+      options,
+      () => dbArrowIPCAll(db, text, ...values)
+    );
   }
 
   /**
    * Executes the sql query and invokes the callback for each row of result data.
    * Since promises can only resolve once, this method uses the same callback
-   * based API of the underlying DuckDb NodeJS API
+   * based API of the underlying DuckDb NodeJS API.
    * @param sql query to execute
    * @param args parameters for template query
    * @returns
    */
-  each(sql: string, ...args: [...any, Callback<duckdb.RowData>] | []): void {
+  each(
+    sql: string | SqlQuery,
+    ...args: [...any, Callback<duckdb.RowData>] | []
+  ): void {
     if (!this.db) {
-      throw new Error("Database.each: uninitialized database");
+      throw new DatabaseClosedError("Database.each");
+    }
+    const [text, ...params] = queryArgs("Database.each", sql, args);
+    if (this.typeMapping) {
+      const db = this.db;
+      eachPreparedInternal(
+        "Database.each",
+        this.typeMapping,
+        () => dbPrepareAsync(db, text),
+        params
+      );
+      return;
+    }
+    this.db.each(text, ...(params as any));
+  }
+
+  /**
+   * Executes the sql query and returns an async iterator over the result rows.
+   * Rows are fetched from DuckDb one chunk at a time as the iterator is consumed,
+   * so arbitrarily large results can be processed without materializing them.
+   * Exiting a `for await` loop early releases the underlying statement.
+   * @param sql query to execute
+   * @param args parameters for template query
+   * @returns async iterator over result rows
+   */
+  iterate<T = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): AsyncGenerator<T, void, undefined> {
+    return iterateRowsInternal(this.iterateChunks<T>(sql, ...args));
+  }
+
+  /**
+   * Like `iterate()`, but yields each chunk of rows as produced by DuckDb
+   * instead of individual rows.
+   * @param sql query to execute
+   * @param args parameters for template query
+   * @returns async iterator over chunks of result rows
+   */
+  iterateChunks<T = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): AsyncGenerator<T[], void, undefined> {
+    const db = this.db;
+    if (!db) {
+      throw new DatabaseClosedError("Database.iterateChunks");
     }
-    this.db.each(sql, ...args);
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs("Database.iterateChunks", sql, params);
+    return iterateChunksInternal(
+      this.instrumentation,
+      queryContext("Database.iterateChunks", text, values, this.redactParams),
+      () => dbPrepareAsync(db, text),
+      values,
+      options,
+      this.typeMapping,
+      true,
+      options.parseRow
+    );
   }
 
   /**
@@ -399,45 +1961,268 @@ export class Database {
    * @param args parameters if `sql` is a parameterized template
    * @returns `Promise<void>` that resolves when all statements have been executed.
    */
-  async exec(sql: string, ...args: any[]): Promise<void> {
-    if (!this.db) {
-      throw new Error("Database.exec: uninitialized database");
+  async exec(sql: string | SqlQuery, ...args: any[]): Promise<void> {
+    const db = this.db;
+    if (!db) {
+      throw new DatabaseClosedError("Database.exec");
+    }
+    if (this.isQueuedWrite("Database.exec", sql)) {
+      return this.write((conn) => conn.exec(sql, ...args));
     }
-    return dbExecAsync(this.db, sql, ...args);
+    return this.execDefault(db, sql, args);
   }
 
-  prepareSync(sql: string, ...args: any[]): Statement {
+  // runs exec() on the default connection
+  private execDefault(
+    db: duckdb.Database,
+    sql: string | SqlQuery,
+    args: any[]
+  ): Promise<void> {
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs("Database.exec", sql, params);
+    const context = queryContext("Database.exec", text, values, this.redactParams);
+    return runQuery(this.instrumentation, context, options, async () => {
+      if (values.length > 0) {
+        // exec() can not bind parameters, but run() can
+        await dbRunAsync(db, text, ...values);
+        return;
+      }
+      return dbExecAsync(db, text);
+    });
+  }
+
+  prepareSync<TParams extends any[] = any[], TRow = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): Statement<TParams, TRow> {
     if (!this.db) {
-      throw new Error("Database.prepareSync: uninitialized database");
+      throw new DatabaseClosedError("Database.prepareSync");
     }
-    const ddbStmt = this.db.prepare(sql, ...(args as any));
-    return Statement.create_internal(ddbStmt);
+    const { text, names } = parseSql(
+      "Database.prepareSync",
+      queryText("Database.prepareSync", sql)
+    );
+    const ddbStmt = this.db.prepare(text, ...(args as any));
+    const prepared = Statement.create_internal<TParams, TRow>(
+      ddbStmt,
+      this,
+      names
+    );
+    this.preparedStatements.add(prepared);
+    return prepared;
   }
 
-  async prepare(sql: string, ...args: any[]): Promise<Statement> {
+  async prepare<TParams extends any[] = any[], TRow = duckdb.RowData>(
+    sql: string | SqlQuery,
+    ...args: any[]
+  ): Promise<Statement<TParams, TRow>> {
     if (!this.db) {
-      throw new Error("Database.prepare: uninitialized database");
+      throw new DatabaseClosedError("Database.prepare");
+    }
+    if (this.isQueuedWrite("Database.prepare", sql)) {
+      const stmt = await this.write((conn) =>
+        conn.prepare<TParams, TRow>(sql, ...args)
+      );
+      stmt.set_write_queue_internal(this.writeQueue);
+      return stmt;
     }
-    const stmt = await dbPrepareAsync(this.db, sql, ...args);
-    return Statement.create_internal(stmt);
+    const db = this.db;
+    const { text, names } = parseSql(
+      "Database.prepare",
+      queryText("Database.prepare", sql)
+    );
+    const stmt = await runQuery(
+      this.instrumentation,
+      { method: "Database.prepare", sql: text },
+      {},
+      () => dbPrepareAsync(db, text, ...args)
+    );
+    const prepared = Statement.create_internal<TParams, TRow>(
+      stmt,
+      this,
+      names
+    );
+    this.preparedStatements.add(prepared);
+    return prepared;
   }
 
-  runSync(sql: string, ...args: any[]): Statement {
+  runSync(sql: string | SqlQuery, ...args: any[]): Statement {
     if (!this.db) {
-      throw new Error("Database.runSync: uninitialized database");
+      throw new DatabaseClosedError("Database.runSync");
     }
+    const [text, ...params] = queryArgs("Database.runSync", sql, args);
     // We need the 'as any' cast here, because run dynamically checks
     // types of args to determine if a callback function was passed in
-    const ddbStmt = this.db.run(sql, ...(args as any));
-    return Statement.create_internal(ddbStmt);
+    const ddbStmt = this.db.run(text, ...(params as any));
+    const statement = Statement.create_internal(ddbStmt, this);
+    this.preparedStatements.add(statement);
+    return statement;
+  }
+
+  async run(sql: string | SqlQuery, ...args: any[]): Promise<Statement> {
+    const db = this.db;
+    if (!db) {
+      throw new DatabaseClosedError("Database.run");
+    }
+    if (this.isQueuedWrite("Database.run", sql)) {
+      return this.write((conn) => conn.run(sql, ...args));
+    }
+    const [params, options] = takeQueryOptions(args);
+    const [text, ...values] = queryArgs("Database.run", sql, params);
+    const stmt = await runQuery(
+      this.instrumentation,
+      queryContext("Database.run", text, values, this.redactParams),
+      options,
+      () => dbRunAsync(db, text, ...values)
+    );
+    const statement = Statement.create_internal(stmt, this);
+    this.preparedStatements.add(statement);
+    return statement;
+  }
+
+  /**
+   * Create an `Appender` that inserts rows into `table` in batches.
+   * @param table table name, or schema-qualified name as an array
+   */
+  createAppender(
+    table: string | string[],
+    options?: AppenderOptions
+  ): Appender {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.createAppender");
+    }
+    return Appender.create_internal(this, table, options);
+  }
+
+  /**
+   * Insert `rows` into `table` in batches of `options.batchSize` rows. Each
+   * batch is inserted atomically; if one fails, a `BulkInsertError` reports
+   * how many rows were inserted before it, and the rows that were not. If
+   * a row can not be appended, the rows buffered before it are discarded
+   * rather than inserted. With `writeQueue`, the rows are inserted as one
+   * queued write.
+   * @param table table name, or schema-qualified name as an array
+   * @returns `Promise` that resolves to the number of rows inserted
+   */
+  async insertMany(
+    table: string | string[],
+    rows: Iterable<InsertRow> | AsyncIterable<InsertRow>,
+    options?: AppenderOptions
+  ): Promise<number> {
+    if (this.queueWrites) {
+      return this.write((conn) => conn.insertMany(table, rows, options));
+    }
+    const appender = this.createAppender(table, options);
+    try {
+      for await (const row of rows) {
+        await appender.append(row);
+      }
+    } catch (err) {
+      await appender.discard();
+      throw err;
+    }
+    return appender.close();
+  }
+
+  /**
+   * Make `rows` queryable as the temporary table `name`, replacing an
+   * earlier one, e.g. to join in-memory data with DuckDb tables. The
+   * columns are inferred from the rows unless `options.schema` is given.
+   * The table is only visible to queries run through the `Database`
+   * itself, not its connections, and is dropped when it is closed. Not
+   * supported with `writeQueue`, whose writes run on another connection.
+   * @returns `Promise` that resolves to the number of rows inserted
+   */
+  async registerTable(
+    name: string,
+    rows: TableRows,
+    options?: RegisterTableOptions
+  ): Promise<number> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.registerTable");
+    }
+    if (this.queueWrites) {
+      throw new DuckDbAsyncError(
+        "Database.registerTable: registered tables are not supported with writeQueue; register them on a Connection",
+        "Database.registerTable"
+      );
+    }
+    return registerTable(
+      "Database.registerTable",
+      this,
+      this.tables,
+      name,
+      rows,
+      options
+    );
   }
 
-  async run(sql: string, ...args: any[]): Promise<Statement> {
+  /**
+   * Drop a table registered with `registerTable()`.
+   */
+  async unregisterTable(name: string): Promise<void> {
     if (!this.db) {
-      throw new Error("Database.runSync: uninitialized database");
+      throw new DatabaseClosedError("Database.unregisterTable");
+    }
+    if (this.tables.delete(name)) {
+      await dropTable(this, name);
+    }
+  }
+
+  /**
+   * Define a scalar function on this database and all its connections,
+   * including connections opened later. Arguments are converted with the
+   * database's type mapping. See `Connection.defineFunction()`.
+   */
+  async defineFunction<
+    P extends readonly SqlType<any>[] | [],
+    R extends SqlType<any>,
+    N extends NullHandling = "propagate"
+  >(definition: FunctionDefinition<P, R, N>): Promise<void> {
+    const db = this.db;
+    if (!db) {
+      throw new DatabaseClosedError("Database.defineFunction");
+    }
+    const compiled = compileFunction(
+      "Database.defineFunction",
+      definition as FunctionDefinition<any, any, any>,
+      this.typeMapping
+    );
+    const { name } = compiled;
+    if (
+      this.functions.has(name) ||
+      Array.from(this.connections).some((conn) =>
+        conn.has_function_internal(name)
+      )
+    ) {
+      throw new DuckDbAsyncError(
+        `Database.defineFunction: function ${name} is already defined`,
+        "Database.defineFunction"
+      );
+    }
+    db.register_udf(name, compiled.returns, compiled.fn);
+    for (const conn of this.connections) {
+      conn.register_function_internal(compiled);
+    }
+    this.functions.set(name, compiled);
+  }
+
+  /**
+   * Remove a function defined with `defineFunction()` from this database and
+   * all its connections.
+   */
+  async removeFunction(name: string): Promise<void> {
+    const db = this.db;
+    if (!db) {
+      throw new DatabaseClosedError("Database.removeFunction");
+    }
+    if (!this.functions.delete(name)) {
+      return;
     }
-    const stmt = await dbRunAsync(this.db, sql, ...args);
-    return Statement.create_internal(stmt);
+    await Promise.all([
+      dbUnregisterUdfAsync(db, name),
+      ...Array.from(this.connections, (conn) => conn.removeFunction(name)),
+    ]);
   }
 
   register_udf(
@@ -446,58 +2231,159 @@ export class Database {
     fun: (...args: any[]) => any
   ): void {
     if (!this.db) {
-      throw new Error("Database.register: uninitialized database");
+      throw new DatabaseClosedError("Database.register_udf");
     }
     this.db.register_udf(name, return_type, fun);
   }
   async unregister_udf(name: string): Promise<void> {
     if (!this.db) {
-      throw new Error("Database.unregister: uninitialized database");
+      throw new DatabaseClosedError("Database.unregister_udf");
     }
     return dbUnregisterUdfAsync(this.db, name);
   }
 
-  stream(sql: any, ...args: any[]): duckdb.QueryResult {
+  stream(sql: string | SqlQuery, ...args: any[]): duckdb.QueryResult {
     if (!this.db) {
-      throw new Error("Database.stream: uninitialized database");
+      throw new DatabaseClosedError("Database.stream");
     }
-    return this.db.stream(sql, ...args);
+    return this.db.stream(...queryArgs("Database.stream", sql, args));
   }
 
   arrowIPCStream(
-    sql: any,
+    sql: string | SqlQuery,
     ...args: any[]
   ): Promise<duckdb.IpcResultStreamIterator> {
     if (!this.db) {
-      throw new Error("Database.arrowIPCStream: uninitialized database");
+      throw new DatabaseClosedError("Database.arrowIPCStream");
+    }
+    return this.db.arrowIPCStream(
+      ...queryArgs("Database.arrowIPCStream", sql, args)
+    );
+  }
+
+  /**
+   * Stream the result of a query as a Node `Readable` of CSV, NDJSON or
+   * Arrow IPC bytes, e.g. to pipe into an HTTP response or a file.
+   * Parameters are passed by building the query with the `sql` template tag.
+   * An error raised mid-stream destroys the stream with that error.
+   */
+  toStream(sql: string | SqlQuery, options: ToStreamOptions): Readable {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.toStream");
+    }
+    return toNodeStream("Database.toStream", this, sql, options);
+  }
+
+  /**
+   * Like `toStream()`, but returns a web `ReadableStream`.
+   */
+  toWebStream(
+    sql: string | SqlQuery,
+    options: ToStreamOptions
+  ): ReadableStream<Uint8Array> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.toWebStream");
+    }
+    return toWebStream("Database.toWebStream", this, sql, options);
+  }
+
+  /**
+   * Read Parquet files. `paths` may contain glob patterns, e.g.
+   * `"data/*.parquet"`. Use the `readParquet()` function to query files with
+   * SQL instead of reading all rows.
+   */
+  async readParquet<T = duckdb.RowData>(
+    paths: string | string[],
+    options?: ReadParquetOptions
+  ): Promise<T[]> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.readParquet");
+    }
+    return this.all<T>(sql`SELECT * FROM ${readParquet(paths, options)}`);
+  }
+
+  /**
+   * Read CSV files. See `readParquet()`.
+   */
+  async readCsv<T = duckdb.RowData>(
+    paths: string | string[],
+    options?: ReadCsvOptions
+  ): Promise<T[]> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.readCsv");
+    }
+    return this.all<T>(sql`SELECT * FROM ${readCsv(paths, options)}`);
+  }
+
+  /**
+   * Read JSON files. See `readParquet()`.
+   */
+  async readJson<T = duckdb.RowData>(
+    paths: string | string[],
+    options?: ReadJsonOptions
+  ): Promise<T[]> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.readJson");
+    }
+    return this.all<T>(sql`SELECT * FROM ${readJson(paths, options)}`);
+  }
+
+  /**
+   * Export a table, or the result of a query built with the `sql` template
+   * tag, to a Parquet, CSV or JSON file with COPY ... TO.
+   * @param source table name, schema-qualified name as an array, or query
+   * @param path file to write, or directory when partitioning
+   * @returns `Promise` that resolves to the number of rows written
+   */
+  async copyTo(
+    source: CopySource,
+    path: string,
+    options?: CopyToOptions
+  ): Promise<number> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.copyTo");
+    }
+    return copyTo("Database.copyTo", this, source, path, options);
+  }
+
+  /**
+   * Like `copyTo()`, but returns the exported file as a `Buffer`, e.g. to
+   * send in an HTTP response.
+   */
+  async copyToBuffer(
+    source: CopySource,
+    options: CopyToBufferOptions
+  ): Promise<Buffer> {
+    if (!this.db) {
+      throw new DatabaseClosedError("Database.copyToBuffer");
     }
-    return this.db.arrowIPCStream(sql, ...args);
+    return copyToBuffer("Database.copyToBuffer", this, source, options);
   }
 
   serialize(): Promise<void> {
     if (!this.db) {
-      throw new Error("Database.serialize: uninitialized database");
+      throw new DatabaseClosedError("Database.serialize");
     }
     return dbSerializeAsync(this.db);
   }
 
   parallelize(): Promise<void> {
     if (!this.db) {
-      throw new Error("Database.parallelize: uninitialized database");
+      throw new DatabaseClosedError("Database.parallelize");
     }
     return dbParallelizeAsync(this.db);
   }
 
   wait(): Promise<void> {
     if (!this.db) {
-      throw new Error("Database.wait: uninitialized database");
+      throw new DatabaseClosedError("Database.wait");
     }
     return dbWaitAsync(this.db);
   }
 
   interrupt(): void {
     if (!this.db) {
-      throw new Error("Database.interrupt: uninitialized database");
+      throw new DatabaseClosedError("Database.interrupt");
     }
     return this.db.interrupt();
   }
@@ -508,14 +2394,14 @@ export class Database {
     force: boolean
   ): Promise<void> {
     if (!this.db) {
-      throw new Error("Database.register_buffer: uninitialized database");
+      throw new DatabaseClosedError("Database.register_buffer");
     }
     return dbRegisterBufferAsync(this.db, name, array, force);
   }
 
   unregister_buffer(name: string): Promise<void> {
     if (!this.db) {
-      throw new Error("Database.unregister_buffer: uninitialized database");
+      throw new DatabaseClosedError("Database.unregister_buffer");
     }
     return dbUnregisterBufferAsync(this.db, name);
   }
@@ -524,39 +2410,109 @@ export class Database {
     replacementScan: duckdb.ReplacementScanCallback
   ): Promise<void> {
     if (!this.db) {
-      throw new Error(
-        "Database.registerReplacementScan: uninitialized database"
-      );
+      throw new DatabaseClosedError("Database.registerReplacementScan");
     }
     return this.db.registerReplacementScan(replacementScan);
   }
+
+  /**
+   * Closes the database unless it is already closed, so it can be declared
+   * with `await using`.
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    if (this.db) {
+      await this.close();
+    }
+  }
 }
 
-const stmtRunAsync = methodPromisify<duckdb.Statement, void>(
-  duckdb.Statement.prototype.run
-);
+const stmtRunAsync = methodPromisify<duckdb.Statement, void>("run");
+
+const stmtFinalizeAsync = methodPromisify<duckdb.Statement, void>("finalize");
+
+const stmtAllAsync = methodPromisify<duckdb.Statement, duckdb.TableData>("all");
+
+/*
+ * Pass the statement prepared by `prepare` to `fn`, and finalize it once
+ * `fn` settles.
+ */
+async function withStatementAsync<R>(
+  prepare: () => Promise<duckdb.Statement>,
+  fn: (stmt: duckdb.Statement) => Promise<R>
+): Promise<R> {
+  const stmt = await prepare();
+  try {
+    return await fn(stmt);
+  } finally {
+    await stmtFinalizeAsync(stmt);
+  }
+}
 
-const stmtFinalizeAsync = methodPromisify<duckdb.Statement, void>(
-  duckdb.Statement.prototype.finalize
-);
+/*
+ * Run a prepared statement, converting its rows according to `mapping`.
+ */
+async function stmtAllConvertedAsync(
+  method: string,
+  mapping: TypeMapping | null,
+  stmt: duckdb.Statement,
+  params: any[]
+): Promise<duckdb.TableData> {
+  const rows = await stmtAllAsync(stmt, ...params);
+  const convert = rowConverter(method, mapping, stmt.columns());
+  if (convert) {
+    rows.forEach(convert);
+  }
+  return rows;
+}
 
-const stmtAllAsync = methodPromisify<duckdb.Statement, duckdb.TableData>(
-  duckdb.Statement.prototype.all
-);
+/*
+ * Run a prepared statement, returning its rows along with its columns.
+ * Statements that return no result (such as DDL) have no columns.
+ */
+async function stmtAllWithMetadataAsync(
+  method: string,
+  mapping: TypeMapping | null,
+  stmt: duckdb.Statement,
+  params: any[]
+): Promise<ResultWithMetadata<duckdb.RowData>> {
+  const start = performance.now();
+  const rows = await stmtAllConvertedAsync(method, mapping, stmt, params);
+  return {
+    rows,
+    columns: stmt.columns() ?? [],
+    rowCount: rows.length,
+    elapsedMs: performance.now() - start,
+  };
+}
 
 const stmtArrowIPCAllAsync = methodPromisify<
   duckdb.Statement,
   duckdb.ArrowArray
->(duckdb.Statement.prototype.arrowIPCAll);
+>("arrowIPCAll");
 
-export class Statement {
+export class Statement<TParams extends any[] = any[], TRow = duckdb.RowData> {
   private stmt: duckdb.Statement;
+  private parseRow: RowParser<TRow> | null = null;
+  private finalized = false;
+  // the write queue of statements prepared by a Database with writeQueue
+  private writeQueue: WriteQueue | null = null;
+
+  /**
+   * Reports queries run with this statement; shared with the `Database` it
+   * was created from.
+   */
+  readonly instrumentation: Instrumentation;
 
   /**
    * Construct an async wrapper from a statement
    */
-  private constructor(stmt: duckdb.Statement) {
+  private constructor(
+    stmt: duckdb.Statement,
+    private owner: StatementOwner,
+    private names: string[]
+  ) {
     this.stmt = stmt;
+    this.instrumentation = owner.instrumentation;
   }
 
   /**
@@ -564,15 +2520,120 @@ export class Statement {
    * This is intended for internal use only, and should not be called directly.
    * Use `Database.prepare()` or `Database.run()` to create Statement objects.
    */
-  static create_internal(stmt: duckdb.Statement): Statement {
-    return new Statement(stmt);
+  static create_internal<TParams extends any[] = any[], TRow = duckdb.RowData>(
+    stmt: duckdb.Statement,
+    owner: StatementOwner,
+    names: string[] = []
+  ): Statement<TParams, TRow> {
+    return new Statement<TParams, TRow>(stmt, owner, names);
+  }
+
+  /**
+   * Run the queries of this statement through `queue`, on whose connection
+   * it was prepared.
+   * This is intended for internal use only, and should not be called directly.
+   */
+  set_write_queue_internal(queue: WriteQueue): void {
+    this.writeQueue = queue;
+  }
+
+  /**
+   * Whether the statement was finalized, or the `Connection` or `Database`
+   * it was created from was closed.
+   */
+  get closed(): boolean {
+    return this.finalized || this.owner.closed;
+  }
+
+  /**
+   * Set a function that is applied to every result row returned by `all()`
+   * and `iterate()`, so rows can be validated or converted at the boundary.
+   * @param parseRow validates a raw row and returns it typed, or throws
+   * @returns this statement, with its row type taken from `parseRow`
+   */
+  withRowParser<U>(parseRow: RowParser<U>): Statement<TParams, U> {
+    const stmt = this as unknown as Statement<TParams, U>;
+    stmt.parseRow = parseRow;
+    return stmt;
+  }
+
+  async all(...args: TParams | [...TParams, QueryOptions]): Promise<TRow[]> {
+    if (this.closed) {
+      throw new StatementClosedError("Statement.all");
+    }
+    const [params, options] = this.takeParams("Statement.all", args);
+    const rows = await this.queued(() =>
+      runQuery(
+        this.instrumentation,
+        this.context("Statement.all", params),
+        options,
+        () =>
+          stmtAllConvertedAsync(
+            "Statement.all",
+            this.owner.get_type_mapping_internal(),
+            this.stmt,
+            params
+          ),
+        countRows
+      )
+    );
+    const parseRow = this.parseRow;
+    return parseRow ? rows.map((row) => parseRow(row)) : (rows as TRow[]);
   }
 
-  async all(...args: any[]): Promise<duckdb.TableData> {
-    return stmtAllAsync(this.stmt, ...args);
+  /**
+   * Like `all()`, but also returns the name and type of each result column
+   * (even when the query returns no rows), the number of rows and the time
+   * taken to run the query.
+   */
+  async allWithMetadata(
+    ...args: TParams | [...TParams, QueryOptions]
+  ): Promise<ResultWithMetadata<TRow>> {
+    if (this.closed) {
+      throw new StatementClosedError("Statement.allWithMetadata");
+    }
+    const [params, options] = this.takeParams(
+      "Statement.allWithMetadata",
+      args
+    );
+    const result = await this.queued(() =>
+      runQuery(
+        this.instrumentation,
+        this.context("Statement.allWithMetadata", params),
+        options,
+        () =>
+          stmtAllWithMetadataAsync(
+            "Statement.allWithMetadata",
+            this.owner.get_type_mapping_internal(),
+            this.stmt,
+            params
+          ),
+        countResultRows
+      )
+    );
+    const parseRow = this.parseRow;
+    return parseRow
+      ? { ...result, rows: result.rows.map((row) => parseRow(row)) }
+      : (result as ResultWithMetadata<TRow>);
   }
-  async arrowIPCAll(...args: any[]): Promise<duckdb.ArrowArray> {
-    return stmtArrowIPCAllAsync(this.stmt, ...args);
+  async arrowIPCAll(
+    ...args: TParams | [...TParams, QueryOptions]
+  ): Promise<duckdb.ArrowArray> {
+    if (this.closed) {
+      throw new StatementClosedError("Statement.arrowIPCAll");
+    }
+    const [params, options] = this.takeParams(
+      "Statement.arrowIPCAll",
+      args
+    );
+    return this.queued(() =>
+      runQuery(
+        this.instrumentation,
+        this.context("Statement.arrowIPCAll", params),
+        options,
+        () => stmtArrowIPCAllAsync(this.stmt, ...params)
+      )
+    );
   }
 
   /**
@@ -585,29 +2646,158 @@ export class Statement {
    * @returns
    */
   each(...args: [...any, Callback<duckdb.RowData>] | []): void {
+    if (this.closed) {
+      throw new StatementClosedError("Statement.each");
+    }
+    this.checkUnqueued("Statement.each");
+    const mapping = this.owner.get_type_mapping_internal();
+    if (mapping) {
+      eachConvertedInternal("Statement.each", mapping, this.stmt, args);
+      return;
+    }
     this.stmt.each(...args);
   }
 
+  /**
+   * Executes the statement and returns an async iterator over the result rows,
+   * fetching one chunk at a time from DuckDb as the iterator is consumed.
+   * The statement remains usable after iteration completes.
+   * @param args parameters for template query
+   * @returns async iterator over result rows
+   */
+  iterate(
+    ...args: TParams | [...TParams, QueryOptions]
+  ): AsyncGenerator<TRow, void, undefined> {
+    return iterateRowsInternal(this.iterateChunks(...args));
+  }
+
+  /**
+   * Like `iterate()`, but yields each chunk of rows as produced by DuckDb
+   * instead of individual rows.
+   * @param args parameters for template query
+   * @returns async iterator over chunks of result rows
+   */
+  iterateChunks(
+    ...args: TParams | [...TParams, QueryOptions]
+  ): AsyncGenerator<TRow[], void, undefined> {
+    const stmt = this.stmt;
+    if (this.closed) {
+      throw new StatementClosedError("Statement.iterateChunks");
+    }
+    this.checkUnqueued("Statement.iterateChunks");
+    const [params, options] = this.takeParams(
+      "Statement.iterateChunks",
+      args
+    );
+    return iterateChunksInternal(
+      this.instrumentation,
+      this.context("Statement.iterateChunks", params),
+      async () => stmt,
+      params,
+      options,
+      this.owner.get_type_mapping_internal(),
+      false,
+      this.parseRow
+    );
+  }
+
   /**
    * Call `duckdb.Statement.run` directly without awaiting completion.
    * @param args arguments passed to duckdb.Statement.run()
    * @returns this
    */
-  runSync(...args: any[]): Statement {
-    this.stmt.run(...(args as any));
+  runSync(...args: TParams): Statement<TParams, TRow> {
+    if (this.closed) {
+      throw new StatementClosedError("Statement.runSync");
+    }
+    this.checkUnqueued("Statement.runSync");
+    const [params] = this.takeParams("Statement.runSync", args);
+    this.stmt.run(...(params as any));
     return this;
   }
 
-  async run(...args: any[]): Promise<Statement> {
-    await stmtRunAsync(this.stmt, ...args);
+  async run(
+    ...args: TParams | [...TParams, QueryOptions]
+  ): Promise<Statement<TParams, TRow>> {
+    if (this.closed) {
+      throw new StatementClosedError("Statement.run");
+    }
+    const [params, options] = this.takeParams("Statement.run", args);
+    await this.queued(() =>
+      runQuery(
+        this.instrumentation,
+        this.context("Statement.run", params),
+        options,
+        () => stmtRunAsync(this.stmt, ...params)
+      )
+    );
     return this;
   }
 
+  // runs `fn` through the write queue the statement was prepared with, if any
+  private queued<T>(fn: () => Promise<T>): Promise<T> {
+    return this.writeQueue ? this.writeQueue.run(fn) : fn();
+  }
+
+  /*
+   * Reject the methods that can not wait for the write queue, as they
+   * return before the statement runs.
+   */
+  private checkUnqueued(method: string): void {
+    if (this.writeQueue) {
+      throw new DuckDbAsyncError(
+        `${method}: not supported for statements prepared with writeQueue; use run() or all()`,
+        method
+      );
+    }
+  }
+
+  /*
+   * Separate the query options from the parameters, binding named
+   * parameters passed as an object to the statement's `$name` placeholders.
+   */
+  private takeParams(method: string, args: any[]): [any[], QueryOptions] {
+    const [params, options] = takeQueryOptions(args);
+    if (isNamedParams(params)) {
+      return [bindNamedParams(method, this.names, params[0]), options];
+    }
+    return [params, options];
+  }
+
+  private context(method: string, params: any[]): QueryErrorContext {
+    return queryContext(
+      method,
+      this.stmt.sql,
+      params,
+      this.owner.get_redact_params_internal()
+    );
+  }
+
+  /**
+   * Release the statement's native resources. Does nothing if the statement
+   * is already closed.
+   */
   async finalize(): Promise<void> {
-    return stmtFinalizeAsync(this.stmt);
+    if (this.closed) {
+      return;
+    }
+    this.finalized = true;
+    this.owner.remove_statement_internal(this);
+    // after the queued runs of the statement
+    return this.queued(() => stmtFinalizeAsync(this.stmt));
+  }
+
+  /**
+   * Finalizes the statement, so it can be declared with `await using`.
+   */
+  async [Symbol.asyncDispose](): Promise<void> {
+    return this.finalize();
   }
 
   columns(): ColumnInfo[] {
+    if (this.closed) {
+      throw new StatementClosedError("Statement.columns");
+    }
     return this.stmt.columns();
   }
 }
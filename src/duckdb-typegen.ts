@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+/**
+ * duckdb-typegen: print (or write to a file) TypeScript interfaces for the
+ * rows of the tables and views of a DuckDb database file.
+ */
+import { promises as fs } from "fs";
+import { Database } from "./duckdb-async";
+import { checkTypeMapping, TypeMapping } from "./conversion";
+import { generateTypes, GenerateTypesOptions } from "./typegen";
+
+const USAGE = `Usage: duckdb-typegen <database file> [options]
+
+Options:
+  --out <file>         write the interfaces to <file> instead of stdout
+  --database <name>    only include tables and views of this database
+  --schema <name>      only include tables and views of this schema
+  --no-views           do not include views
+  --bigint <type>      type mapping of BIGINT values: bigint, number or string
+  --decimal <type>     type mapping of DECIMAL values: number or string
+  --timestamp <type>   type mapping of TIMESTAMP values: Date, string or temporal
+`;
+
+interface Arguments {
+  path: string;
+  out?: string;
+  options: GenerateTypesOptions;
+}
+
+function parseArguments(args: string[]): Arguments | null {
+  let path: string | undefined;
+  let out: string | undefined;
+  const options: GenerateTypesOptions = {};
+  const types: TypeMapping = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--no-views") {
+      options.views = false;
+      continue;
+    }
+    if (!arg.startsWith("--")) {
+      if (path !== undefined) {
+        return null;
+      }
+      path = arg;
+      continue;
+    }
+    const value = args[++i];
+    if (value === undefined) {
+      return null;
+    }
+    switch (arg) {
+      case "--out":
+        out = value;
+        break;
+      case "--database":
+        options.database = value;
+        break;
+      case "--schema":
+        options.schema = value;
+        break;
+      case "--bigint":
+        types.bigint = value as TypeMapping["bigint"];
+        break;
+      case "--decimal":
+        types.decimal = value as TypeMapping["decimal"];
+        break;
+      case "--timestamp":
+        types.timestamp = value as TypeMapping["timestamp"];
+        break;
+      default:
+        return null;
+    }
+  }
+  if (path === undefined) {
+    return null;
+  }
+  checkTypeMapping("duckdb-typegen", types);
+  options.types = types;
+  return { path, out, options };
+}
+
+async function main(args: string[]): Promise<void> {
+  const parsed = parseArguments(args);
+  if (!parsed) {
+    process.stderr.write(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+  const db = await Database.create(parsed.path, { access_mode: "read_only" });
+  try {
+    const source = await generateTypes(db, parsed.options);
+    if (parsed.out !== undefined) {
+      await fs.writeFile(parsed.out, source);
+    } else {
+      process.stdout.write(source);
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  process.stderr.write(`${err instanceof Error ? err.message : err}\n`);
+  process.exitCode = 1;
+});
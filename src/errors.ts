@@ -0,0 +1,237 @@
+/**
+ * Error classes raised by duckdb-async.
+ *
+ * Errors reported by DuckDb are translated into subclasses of `QueryError`
+ * according to their `errorType`, so callers can branch on `instanceof`
+ * rather than matching error messages.
+ */
+import type { DuckDbError, ExceptionType } from "duckdb";
+import type { InsertRow } from "./appender";
+
+/**
+ * Base class of all errors raised by duckdb-async.
+ */
+export class DuckDbAsyncError extends Error {
+  /**
+   * @param message error message
+   * @param method the method that raised the error, e.g. `"Connection.all"`
+   * @param cause the underlying error, if any
+   */
+  constructor(message: string, readonly method: string, cause?: unknown) {
+    super(message, cause === undefined ? undefined : { cause });
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Raised when calling a method of a `Connection` that was closed, or
+ * could not be opened.
+ */
+export class ConnectionClosedError extends DuckDbAsyncError {
+  constructor(method: string) {
+    super(`${method}: connection is closed`, method);
+  }
+}
+
+/**
+ * Raised when calling a method of a `Database` that was closed, or could
+ * not be opened.
+ */
+export class DatabaseClosedError extends DuckDbAsyncError {
+  constructor(method: string) {
+    super(`${method}: database is closed`, method);
+  }
+}
+
+/**
+ * Raised when calling a method of a `Statement` that was finalized, or
+ * whose `Connection` or `Database` was closed.
+ */
+export class StatementClosedError extends DuckDbAsyncError {
+  constructor(method: string) {
+    super(`${method}: statement is closed`, method);
+  }
+}
+
+/**
+ * Raised when a query is cancelled through the `signal` passed in its
+ * `QueryOptions`.
+ */
+export class QueryCancelledError extends DuckDbAsyncError {
+  constructor(
+    method: string,
+    readonly reason?: unknown,
+    message = `${method}: query cancelled`
+  ) {
+    super(message, method);
+  }
+}
+
+/**
+ * Raised when a query does not complete within the `timeoutMs` passed in
+ * its `QueryOptions`.
+ */
+export class QueryTimeoutError extends QueryCancelledError {
+  constructor(method: string, readonly timeoutMs: number) {
+    super(method, undefined, `${method}: query timed out after ${timeoutMs}ms`);
+  }
+}
+
+/**
+ * Raised by `migrate()` when the migrations can not be applied or reverted,
+ * e.g. because an applied migration was modified or one of them failed.
+ */
+export class MigrationError extends DuckDbAsyncError {
+  /**
+   * @param message error message
+   * @param migration id of the offending migration, if any
+   * @param cause the underlying error, if any
+   */
+  constructor(message: string, readonly migration?: string, cause?: unknown) {
+    super(message, "migrate", cause);
+  }
+}
+
+/**
+ * Raised when a batch of rows could not be inserted by an `Appender` or
+ * `insertMany()`. The failed batch was not inserted at all; the error's
+ * `cause` is the error reported for it.
+ */
+export class BulkInsertError extends DuckDbAsyncError {
+  /**
+   * @param message error message
+   * @param method the method that raised the error
+   * @param insertedCount number of rows inserted before the failed batch
+   * @param rows the rows that were not inserted, as they were appended
+   * @param cause the error reported for the failed batch
+   */
+  constructor(
+    message: string,
+    method: string,
+    readonly insertedCount: number,
+    readonly rows: readonly InsertRow[],
+    cause: unknown
+  ) {
+    super(message, method, cause);
+  }
+}
+
+/**
+ * The query a `QueryError` was raised for.
+ */
+export interface QueryErrorContext {
+  method: string;
+  sql?: string;
+  params?: readonly unknown[];
+}
+
+/**
+ * An error reported by DuckDb while preparing or executing a query.
+ * Keeps the `message`, `code`, `errno` and `errorType` of the original
+ * `DuckDbError` (available as `cause`), and records the query's SQL text
+ * and bound parameters.
+ */
+export class QueryError extends DuckDbAsyncError {
+  readonly code = "DUCKDB_NODEJS_ERROR";
+  readonly errno = -1;
+  readonly errorType: ExceptionType;
+  readonly sql?: string;
+  readonly params?: readonly unknown[];
+
+  constructor(cause: DuckDbError, context: QueryErrorContext) {
+    super(cause.message, context.method, cause);
+    this.errorType = cause.errorType;
+    this.sql = context.sql;
+    this.params = context.params;
+  }
+}
+
+/*
+ * `params` with each value replaced by `"[redacted]"`.
+ */
+export function redactParams(
+  params: readonly unknown[] | undefined
+): readonly unknown[] | undefined {
+  return params?.map(() => "[redacted]");
+}
+
+/**
+ * The query referenced a catalog entry (table, view, function, ...) that
+ * does not exist, or tried to create one that already exists.
+ */
+export class CatalogError extends QueryError {}
+
+/** The SQL text could not be parsed. */
+export class ParserError extends QueryError {}
+
+/** The query could not be bound, e.g. it references an unknown column. */
+export class BinderError extends QueryError {}
+
+/** A NOT NULL, UNIQUE, PRIMARY KEY, FOREIGN KEY or CHECK constraint failed. */
+export class ConstraintError extends QueryError {}
+
+/** A value could not be converted or cast to the required type. */
+export class ConversionError extends QueryError {}
+
+/** Invalid input, such as a malformed value or bad function arguments. */
+export class InvalidInputError extends QueryError {}
+
+/** Reading or writing a file, or an HTTP request, failed. */
+export class IOError extends QueryError {}
+
+/** DuckDb ran out of memory while executing the query. */
+export class OutOfMemoryError extends QueryError {}
+
+/** A transaction could not be started, committed or rolled back. */
+export class TransactionError extends QueryError {}
+
+/**
+ * The transaction conflicted with a concurrently committed transaction.
+ * Retrying the transaction may succeed; see `TransactionOptions.maxRetries`.
+ */
+export class TransactionConflictError extends TransactionError {}
+
+const errorClasses: Partial<Record<ExceptionType, typeof QueryError>> = {
+  Catalog: CatalogError,
+  Parser: ParserError,
+  Syntax: ParserError,
+  Binder: BinderError,
+  Constraint: ConstraintError,
+  Conversion: ConversionError,
+  "Invalid Input": InvalidInputError,
+  IO: IOError,
+  HTTP: IOError,
+  "Out of Memory": OutOfMemoryError,
+  TransactionContext: TransactionError,
+};
+
+function isDuckDbError(err: unknown): err is DuckDbError {
+  return (
+    err instanceof Error &&
+    (err as DuckDbError).code === "DUCKDB_NODEJS_ERROR"
+  );
+}
+
+/*
+ * Translate an error reported by DuckDb into the matching QueryError
+ * subclass. Other errors are returned unchanged.
+ */
+export function toQueryError(
+  err: unknown,
+  context: QueryErrorContext
+): unknown {
+  if (!isDuckDbError(err) || err instanceof DuckDbAsyncError) {
+    return err;
+  }
+  // DuckDb uses optimistic concurrency control: conflicting writes from
+  // concurrent transactions are reported as TransactionContext errors
+  // mentioning the conflict.
+  if (
+    err.errorType === "TransactionContext" &&
+    /conflict/i.test(err.message)
+  ) {
+    return new TransactionConflictError(err, context);
+  }
+  const ErrorClass = errorClasses[err.errorType] ?? QueryError;
+  return new ErrorClass(err, context);
+}
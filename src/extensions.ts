@@ -0,0 +1,155 @@
+/**
+ * Installing and loading DuckDb extensions.
+ */
+import type { Connection, Database } from "./duckdb-async";
+import { DuckDbAsyncError } from "./errors";
+import { sql } from "./sql";
+
+/** An extension, as reported by `duckdb_extensions()`. */
+export interface ExtensionInfo {
+  name: string;
+  loaded: boolean;
+  installed: boolean;
+  /** Path the extension is installed at, or `"(BUILT-IN)"`. */
+  installPath: string | null;
+  description: string | null;
+  aliases: string[];
+  version: string | null;
+  /** How the extension was installed, e.g. `"REPOSITORY"`. */
+  installMode: string | null;
+  /** Repository or path the extension was installed from. */
+  installedFrom: string | null;
+}
+
+export interface InstallExtensionOptions {
+  /**
+   * Repository to install from: a named repository (`"core"`,
+   * `"core_nightly"`, `"community"`) or a URL or directory. Defaults to
+   * DuckDb's core repository.
+   */
+  repository?: string;
+  /**
+   * Path of an extension file (`<name>.duckdb_extension`) to install,
+   * which works without network access. Can not be combined with
+   * `repository`.
+   */
+  fromPath?: string;
+  /** Reinstall the extension if it is already installed. */
+  force?: boolean;
+}
+
+/*
+ * Whether `extension` is the path of an extension file rather than the name
+ * of an extension.
+ */
+function isPath(extension: string): boolean {
+  return /[/\\]|\.duckdb_extension$/.test(extension);
+}
+
+/*
+ * The SQL form of an extension name or path: names are validated, and
+ * paths quoted.
+ */
+function extensionRef(method: string, extension: string): string {
+  if (isPath(extension)) {
+    return sql.literal(extension).text;
+  }
+  if (!/^[A-Za-z0-9_]+$/.test(extension)) {
+    throw new DuckDbAsyncError(
+      `${method}: invalid extension name "${extension}"`,
+      method
+    );
+  }
+  return extension;
+}
+
+/**
+ * Installs and loads the extensions of a `Database`; available as
+ * `Database.extensions`.
+ *
+ * DuckDb loads extensions into the database instance, so an extension loaded
+ * through any connection is available on all of them.
+ */
+export class Extensions {
+  private constructor(
+    private db: Database,
+    private autoLoad: readonly string[]
+  ) {}
+
+  /**
+   * create the Extensions of a Database.
+   * This is intended for internal use only, and should not be called directly.
+   */
+  static create_internal(
+    db: Database,
+    autoLoad: readonly string[] = []
+  ): Extensions {
+    for (const extension of autoLoad) {
+      extensionRef("Database.create", extension);
+    }
+    return new Extensions(db, autoLoad);
+  }
+
+  /** All extensions known to DuckDb, including those not installed. */
+  async list(): Promise<ExtensionInfo[]> {
+    return this.db.all<ExtensionInfo>(
+      `SELECT extension_name AS name, loaded, installed,
+        install_path AS "installPath", description, aliases,
+        extension_version AS version, install_mode::VARCHAR AS "installMode",
+        installed_from AS "installedFrom"
+      FROM duckdb_extensions() ORDER BY extension_name`
+    );
+  }
+
+  /**
+   * Install an extension, so it can be loaded with `load()`.
+   * @param name name of the extension
+   */
+  async install(
+    name: string,
+    options: InstallExtensionOptions = {}
+  ): Promise<void> {
+    const method = "Database.extensions.install";
+    const { repository, fromPath, force } = options;
+    if (repository !== undefined && fromPath !== undefined) {
+      throw new DuckDbAsyncError(
+        `${method}: repository and fromPath can not be combined`,
+        method
+      );
+    }
+    let source = extensionRef(method, name);
+    if (fromPath !== undefined) {
+      // the file name determines the name of the installed extension
+      source = sql.literal(fromPath).text;
+    }
+    let text = `${force ? "FORCE " : ""}INSTALL ${source}`;
+    if (repository !== undefined) {
+      text +=
+        " FROM " +
+        (/^[A-Za-z_][A-Za-z0-9_]*$/.test(repository)
+          ? repository
+          : sql.literal(repository).text);
+    }
+    await this.db.exec(text);
+  }
+
+  /**
+   * Load an installed extension, or an extension file directly (which does
+   * not require installing it, or network access).
+   * @param extension name of the extension, or path of an extension file
+   */
+  async load(extension: string): Promise<void> {
+    await this.db.exec(
+      `LOAD ${extensionRef("Database.extensions.load", extension)}`
+    );
+  }
+
+  // load the extensions of the `loadExtensions` option -- internal use only
+  async auto_load_internal(target: Connection | Database): Promise<void> {
+    for (const extension of this.autoLoad) {
+      await target.exec(
+        `LOAD ${extensionRef("Database.create", extension)}`
+      );
+    }
+  }
+}
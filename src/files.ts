@@ -0,0 +1,276 @@
+/**
+ * Reading Parquet, CSV and JSON files, and exporting query results to files
+ * or in-memory buffers with COPY ... TO.
+ */
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { Connection, Database } from "./duckdb-async";
+import { DuckDbAsyncError } from "./errors";
+import { sql, SqlQuery } from "./sql";
+
+/** Options shared by `readParquet()`, `readCsv()` and `readJson()`. */
+export interface ReadFileOptions {
+  /** Add a `filename` column with the file each row was read from. */
+  filename?: boolean;
+  /** Interpret `key=value` directories in paths as columns. */
+  hivePartitioning?: boolean;
+  /** Combine the columns of multiple files by name rather than position. */
+  unionByName?: boolean;
+}
+
+export interface ReadParquetOptions extends ReadFileOptions {
+  /** Read BLOB columns written without a logical type as VARCHAR. */
+  binaryAsString?: boolean;
+  /** Add a `file_row_number` column. */
+  fileRowNumber?: boolean;
+}
+
+export interface ReadCsvOptions extends ReadFileOptions {
+  /** Field delimiter. Detected by default. */
+  delimiter?: string;
+  /** Whether the first line is a header. Detected by default. */
+  header?: boolean;
+  /** Column names and SQL types, which disables type detection. */
+  columns?: Record<string, string>;
+  quote?: string;
+  escape?: string;
+  /** Number of lines to skip at the start of the file. */
+  skip?: number;
+  /** Strings read as NULL. */
+  nullString?: string | string[];
+  /** Format of DATE values, e.g. `"%d/%m/%Y"`. */
+  dateFormat?: string;
+  /** Format of TIMESTAMP values. */
+  timestampFormat?: string;
+  /** Compression of the file, e.g. `"gzip"`. Detected by default. */
+  compression?: string;
+  /** Whether to detect the dialect and column types. Defaults to true. */
+  autoDetect?: boolean;
+  /** Number of rows sampled to detect column types. */
+  sampleSize?: number;
+  /** Read all columns as VARCHAR. */
+  allVarchar?: boolean;
+  /** Skip lines that can not be parsed. */
+  ignoreErrors?: boolean;
+}
+
+export interface ReadJsonOptions extends ReadFileOptions {
+  /**
+   * `"newline_delimited"` for one JSON value per line, `"array"` for a
+   * top-level array. Detected by default.
+   */
+  format?: "auto" | "newline_delimited" | "array" | "unstructured";
+  /** Column names and SQL types, which disables type detection. */
+  columns?: Record<string, string>;
+  /** Format of DATE values. */
+  dateFormat?: string;
+  /** Format of TIMESTAMP values. */
+  timestampFormat?: string;
+  /** Compression of the file, e.g. `"gzip"`. Detected by default. */
+  compression?: string;
+  /** Maximum size of a JSON value in bytes. */
+  maximumObjectSize?: number;
+  /** Number of values sampled to detect column types. */
+  sampleSize?: number;
+  /** Skip values that can not be parsed. */
+  ignoreErrors?: boolean;
+}
+
+export type CopyFormat = "parquet" | "csv" | "json";
+
+export interface CopyToOptions {
+  /** File format. Defaults to the format of the file's extension. */
+  format?: CopyFormat;
+  /** Compression, e.g. `"zstd"` or `"snappy"` for Parquet, `"gzip"` for CSV. */
+  compression?: string;
+  /**
+   * Columns to partition the output by: `path` becomes a directory with a
+   * `column=value` subdirectory for each partition.
+   */
+  partitionBy?: string[];
+  /** Replace the contents of an existing partitioned output directory. */
+  overwrite?: boolean;
+  /** Whether CSV output starts with a header row. */
+  header?: boolean;
+  /** CSV field delimiter. */
+  delimiter?: string;
+  /** Number of rows per Parquet row group. */
+  rowGroupSize?: number;
+  /** Format of DATE values in CSV and JSON output. */
+  dateFormat?: string;
+  /** Format of TIMESTAMP values in CSV and JSON output. */
+  timestampFormat?: string;
+}
+
+export type CopyToBufferOptions = Omit<
+  CopyToOptions,
+  "format" | "partitionBy" | "overwrite"
+> & { format: CopyFormat };
+
+/**
+ * What to export: a table (name, or schema-qualified name as an array), or
+ * a query built with the `sql` template tag.
+ */
+export type CopySource = string | string[] | SqlQuery;
+
+type OptionValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | Record<string, string>;
+
+// DuckDb's names for options whose names are not simply snake_case
+const OPTION_NAMES: Record<string, string> = {
+  delimiter: "delim",
+  nullString: "nullstr",
+  dateFormat: "dateformat",
+  timestampFormat: "timestampformat",
+};
+
+function optionName(method: string, key: string): string {
+  if (!/^[A-Za-z]+$/.test(key)) {
+    throw new DuckDbAsyncError(`${method}: invalid option "${key}"`, method);
+  }
+  return (
+    OPTION_NAMES[key] ?? key.replace(/[A-Z]/g, (c) => `_${c.toLowerCase()}`)
+  );
+}
+
+function optionLiteral(value: OptionValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => sql.literal(item).text).join(", ")}]`;
+  }
+  if (typeof value === "object") {
+    const fields = Object.entries(value).map(
+      ([key, item]) => `${sql.literal(key).text}: ${sql.literal(item).text}`
+    );
+    return `{${fields.join(", ")}}`;
+  }
+  return sql.literal(value).text;
+}
+
+function tableFunction(
+  method: string,
+  name: string,
+  paths: string | string[],
+  options: object
+): SqlQuery {
+  const args = [optionLiteral(paths)];
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) {
+      args.push(`${optionName(method, key)} = ${optionLiteral(value)}`);
+    }
+  }
+  return new SqlQuery(`${name}(${args.join(", ")})`, []);
+}
+
+/**
+ * A `read_parquet()` table function call reading `paths` (which may contain
+ * glob patterns), for use in `sql` queries:
+ *
+ * ```typescript
+ * await conn.all(sql`SELECT count(*) FROM ${readParquet("data/*.parquet")}`);
+ * ```
+ */
+export function readParquet(
+  paths: string | string[],
+  options: ReadParquetOptions = {}
+): SqlQuery {
+  return tableFunction("readParquet", "read_parquet", paths, options);
+}
+
+/** A `read_csv()` table function call. See `readParquet()`. */
+export function readCsv(
+  paths: string | string[],
+  options: ReadCsvOptions = {}
+): SqlQuery {
+  return tableFunction("readCsv", "read_csv", paths, options);
+}
+
+/** A `read_json()` table function call. See `readParquet()`. */
+export function readJson(
+  paths: string | string[],
+  options: ReadJsonOptions = {}
+): SqlQuery {
+  return tableFunction("readJson", "read_json", paths, options);
+}
+
+function copyStatement(
+  method: string,
+  source: CopySource,
+  target: string,
+  options: CopyToOptions
+): SqlQuery {
+  const { format, partitionBy, ...rest } = options;
+  const from =
+    source instanceof SqlQuery
+      ? new SqlQuery(`(${source.text})`, source.values)
+      : sql.identifier(source);
+  const clauses: string[] = [];
+  if (format !== undefined) {
+    if (!["parquet", "csv", "json"].includes(format)) {
+      throw new DuckDbAsyncError(
+        `${method}: unsupported format "${format}"`,
+        method
+      );
+    }
+    clauses.push(`FORMAT ${format}`);
+  }
+  if (partitionBy !== undefined) {
+    const columns = partitionBy.map((column) => sql.identifier(column));
+    clauses.push(`PARTITION_BY (${sql.join(columns).text})`);
+  }
+  for (const [key, value] of Object.entries(rest)) {
+    if (value !== undefined) {
+      clauses.push(
+        `${optionName(method, key).toUpperCase()} ${optionLiteral(value)}`
+      );
+    }
+  }
+  const with_ = clauses.length > 0 ? ` (${clauses.join(", ")})` : "";
+  return sql`COPY ${from} TO ${sql.literal(target)}${new SqlQuery(with_, [])}`;
+}
+
+/*
+ * Export a table or query result with COPY ... TO, returning the number of
+ * rows written.
+ */
+export async function copyTo(
+  method: string,
+  db: Connection | Database,
+  source: CopySource,
+  target: string,
+  options: CopyToOptions = {}
+): Promise<number> {
+  const rows = await db.all<{ Count: unknown }>(
+    copyStatement(method, source, target, options)
+  );
+  return Number(rows[0]?.Count ?? 0);
+}
+
+/*
+ * Export a table or query result to a Buffer, by way of a temporary file.
+ */
+export async function copyToBuffer(
+  method: string,
+  db: Connection | Database,
+  source: CopySource,
+  options: CopyToBufferOptions
+): Promise<Buffer> {
+  if ((options as CopyToOptions).partitionBy !== undefined) {
+    throw new DuckDbAsyncError(
+      `${method}: partitioned output can not be written to a buffer`,
+      method
+    );
+  }
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "duckdb-async-"));
+  try {
+    const file = path.join(dir, `export.${options.format}`);
+    await copyTo(method, db, source, file, options);
+    return await fs.readFile(file);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
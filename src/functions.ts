@@ -0,0 +1,190 @@
+/**
+ * Typed definitions of scalar user defined functions (UDFs).
+ */
+import { argumentConverter, TypeMapping } from "./conversion";
+import { DuckDbAsyncError } from "./errors";
+
+/**
+ * A SQL type usable for the parameters and return value of a UDF, along
+ * with the JavaScript type its values have.
+ */
+export interface SqlType<T> {
+  /** Name of the type in SQL. */
+  readonly sql: string;
+  /** Representation of the values of 64-bit integer types. */
+  readonly bigint?: TypeMapping["bigint"];
+  /** Convert a value returned by a UDF to the representation DuckDb expects. */
+  readonly toDuckDb: (value: T) => unknown;
+}
+
+function sqlType<T>(sql: string, toDuckDb = (value: T): unknown => value) {
+  return { sql, toDuckDb } as SqlType<T>;
+}
+
+/** JavaScript type of 64-bit integers represented as `B`. */
+type BigIntOf<B> = B extends "number"
+  ? number
+  : B extends "string"
+  ? string
+  : bigint;
+
+function bigintType<B extends TypeMapping["bigint"]>(sql: string, bigint: B) {
+  const toDuckDb = (value: bigint | number | string) => BigInt(value);
+  return { sql, bigint, toDuckDb } as SqlType<BigIntOf<B>>;
+}
+
+/**
+ * The SQL types supported for UDF parameters and return values.
+ * 64-bit integers are passed to and from JavaScript as BigInts; use
+ * `typesFor()` with a database's type mapping to pass them as numbers or
+ * strings.
+ */
+export const Types = {
+  TINYINT: sqlType<number>("TINYINT"),
+  SMALLINT: sqlType<number>("SMALLINT"),
+  INTEGER: sqlType<number>("INTEGER"),
+  BIGINT: bigintType("BIGINT", "bigint"),
+  UBIGINT: bigintType("UBIGINT", "bigint"),
+  DOUBLE: sqlType<number>("DOUBLE"),
+  VARCHAR: sqlType<string>("VARCHAR"),
+};
+
+/**
+ * `Types` for functions of a database or connection using the type mapping
+ * `mapping`: 64-bit integer arguments have the representation
+ * `mapping.bigint` selects, e.g. `typesFor({ bigint: "number" }).BIGINT`
+ * passes numbers.
+ */
+export function typesFor<M extends TypeMapping>(mapping: M) {
+  const bigint = mapping.bigint ?? "bigint";
+  return {
+    ...Types,
+    BIGINT: bigintType("BIGINT", bigint) as SqlType<BigIntOf<M["bigint"]>>,
+    UBIGINT: bigintType("UBIGINT", bigint) as SqlType<BigIntOf<M["bigint"]>>,
+  };
+}
+
+type TypeOf<S> = S extends SqlType<infer T> ? T : never;
+
+/** JavaScript types of the arguments of a UDF with parameter types `P`. */
+export type FunctionArgs<P extends readonly SqlType<any>[]> = {
+  [K in keyof P]: TypeOf<P[K]>;
+};
+
+/** Like `FunctionArgs`, but allowing NULL (`null`) arguments. */
+export type NullableFunctionArgs<P extends readonly SqlType<any>[]> = {
+  [K in keyof P]: TypeOf<P[K]> | null;
+};
+
+/**
+ * How a UDF treats NULL arguments: `"propagate"` (the default) returns
+ * NULL without calling the function if any argument is NULL, `"call"` calls
+ * the function with `null` arguments.
+ */
+export type NullHandling = "propagate" | "call";
+
+export interface FunctionDefinition<
+  P extends readonly SqlType<any>[] | [],
+  R extends SqlType<any>,
+  N extends NullHandling = "propagate"
+> {
+  /** Name of the function in SQL. */
+  name: string;
+  /** Types of the function's parameters. */
+  params: P;
+  /** Type of the function's return value. */
+  returns: R;
+  nullHandling?: N;
+  /**
+   * Implementation of the function, called once per row. Returning `null`
+   * or `undefined` produces NULL. UDFs run synchronously, so `fn` can not
+   * return a promise.
+   */
+  fn: (
+    ...args: Extract<
+      N extends "call" ? NullableFunctionArgs<P> : FunctionArgs<P>,
+      readonly unknown[]
+    >
+  ) => TypeOf<R> | null | undefined;
+}
+
+/*
+ * A function definition in the form passed to the DuckDb NodeJS API's
+ * register_udf().
+ */
+export interface CompiledFunction {
+  name: string;
+  returns: string;
+  fn: (...args: any[]) => any;
+}
+
+/*
+ * Validate a function definition and wrap its implementation to check the
+ * number of arguments, apply the null handling, convert arguments according
+ * to `mapping` and return values to DuckDb's representation, and prefix
+ * errors with the function's name. 64-bit integer parameters must be
+ * declared with the representation `mapping` converts them to, so their
+ * inferred argument types hold.
+ */
+export function compileFunction(
+  method: string,
+  definition: FunctionDefinition<SqlType<any>[], SqlType<any>, NullHandling>,
+  mapping: TypeMapping | null = null
+): CompiledFunction {
+  const { name, params, returns, fn } = definition;
+  const nullHandling = definition.nullHandling ?? "propagate";
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new DuckDbAsyncError(
+      `${method}: invalid function name "${name}"`,
+      method
+    );
+  }
+  if (typeof fn !== "function") {
+    throw new DuckDbAsyncError(
+      `${method}: fn of function "${name}" is not a function`,
+      method
+    );
+  }
+  const bigint = mapping?.bigint ?? "bigint";
+  params.forEach((param, i) => {
+    if (param.bigint !== undefined && param.bigint !== bigint) {
+      throw new DuckDbAsyncError(
+        `${method}: parameter ${i + 1} of function "${name}" is a ${bigint} ${param.sql} with this type mapping, use typesFor()`,
+        method
+      );
+    }
+  });
+  const converters = params.map((param) =>
+    argumentConverter(method, mapping, param.sql)
+  );
+  return {
+    name,
+    returns: returns.sql,
+    fn: (...args: unknown[]) => {
+      try {
+        if (args.length !== params.length) {
+          throw new Error(
+            `expected ${params.length} arguments, got ${args.length}`
+          );
+        }
+        if (nullHandling === "propagate" && args.includes(null)) {
+          return null;
+        }
+        const result = fn(
+          ...args.map((arg, i) => {
+            const convert = converters[i];
+            return arg === null || !convert ? arg : convert(arg);
+          })
+        );
+        if (result === null || result === undefined) {
+          return null;
+        }
+        return returns.toDuckDb(result);
+      } catch (err) {
+        throw new Error(
+          `function ${name}: ${err instanceof Error ? err.message : err}`
+        );
+      }
+    },
+  };
+}
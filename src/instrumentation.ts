@@ -0,0 +1,203 @@
+/**
+ * Query lifecycle events, logging and tracing.
+ */
+import { EventEmitter } from "events";
+import type { QueryErrorContext } from "./errors";
+
+/** Emitted as `queryStart` when a query begins executing. */
+export type QueryStartEvent = QueryErrorContext;
+
+/** Emitted as `queryEnd` when a query completes successfully. */
+export interface QueryEndEvent extends QueryStartEvent {
+  durationMs: number;
+  /** Number of rows returned, for methods that return rows. */
+  rowCount?: number;
+}
+
+/** Emitted as `queryError` when a query fails or is cancelled. */
+export interface QueryErrorEvent extends QueryStartEvent {
+  durationMs: number;
+  error: unknown;
+}
+
+/**
+ * Minimal logger interface; `console` and most logging libraries satisfy it.
+ */
+export interface QueryLogger {
+  debug(message: string, ...meta: unknown[]): void;
+  error(message: string, ...meta: unknown[]): void;
+}
+
+type SpanAttributeValue = string | number | boolean;
+
+/**
+ * The subset of the OpenTelemetry `Span` interface used for tracing queries.
+ */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  recordException(exception: Error): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * The subset of the OpenTelemetry `Tracer` interface used for tracing
+ * queries, so a tracer from `@opentelemetry/api` can be used directly.
+ */
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, SpanAttributeValue> }
+  ): Span;
+}
+
+// SpanStatusCode.ERROR in OpenTelemetry
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Tracks a single query from start to completion.
+ */
+export interface QueryTrace {
+  end(rowCount?: number): void;
+  fail(error: unknown): void;
+}
+
+export interface Instrumentation {
+  on(event: "queryStart", listener: (event: QueryStartEvent) => void): this;
+  on(event: "queryEnd", listener: (event: QueryEndEvent) => void): this;
+  on(event: "queryError", listener: (event: QueryErrorEvent) => void): this;
+  off(event: "queryStart", listener: (event: QueryStartEvent) => void): this;
+  off(event: "queryEnd", listener: (event: QueryEndEvent) => void): this;
+  off(event: "queryError", listener: (event: QueryErrorEvent) => void): this;
+}
+
+/**
+ * Observes the queries run through a `Database` and all `Connection`s and
+ * `Statement`s created from it. Available as `db.instrumentation`.
+ *
+ * Emits `queryStart`, `queryEnd` and `queryError` events, logs completed
+ * and failed queries to `logger` (if set), and records a span per query
+ * with `tracer` (if set).
+ */
+export class Instrumentation extends EventEmitter {
+  logger: QueryLogger | null = null;
+  tracer: Tracer | null = null;
+  private running = 0;
+  private interrupt: (() => void) | null = null;
+
+  /** Number of queries that have begun and not yet settled. */
+  get runningQueries(): number {
+    return this.running;
+  }
+
+  /**
+   * Set the function that interrupts the queries running on the database.
+   * This is intended for internal use only, and should not be called directly.
+   */
+  set_interrupt_internal(interrupt: () => void): void {
+    this.interrupt = interrupt;
+  }
+
+  /**
+   * Interrupt a cancelled query, unless other queries are running that
+   * interrupting the database would stop as well.
+   * This is intended for internal use only, and should not be called directly.
+   */
+  interrupt_internal(): void {
+    if (this.running <= 1) {
+      this.interrupt?.();
+    }
+  }
+
+  /**
+   * Report the start of a query; the returned trace must be ended or
+   * failed when the query settles. Used internally by the query methods.
+   */
+  begin(context: QueryErrorContext): QueryTrace {
+    const start = performance.now();
+    const span = this.tracer?.startSpan(context.method, {
+      attributes: {
+        "db.system": "duckdb",
+        ...(context.sql === undefined ? {} : { "db.statement": context.sql }),
+      },
+    });
+    this.emitSafely("queryStart", context);
+    this.running++;
+
+    let settled = false;
+    return {
+      end: (rowCount?: number) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        this.running--;
+        const durationMs = performance.now() - start;
+        if (span) {
+          if (rowCount !== undefined) {
+            span.setAttribute("db.response.returned_rows", rowCount);
+          }
+          span.end();
+        }
+        this.logger?.debug(
+          `${context.method} completed in ${durationMs.toFixed(1)}ms`,
+          { sql: context.sql, rowCount }
+        );
+        this.emitSafely("queryEnd", { ...context, durationMs, rowCount });
+      },
+      fail: (error: unknown) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        this.running--;
+        const durationMs = performance.now() - start;
+        if (span) {
+          if (error instanceof Error) {
+            span.recordException(error);
+          }
+          span.setStatus({ code: SPAN_STATUS_ERROR, message: String(error) });
+          span.end();
+        }
+        this.logger?.error(
+          `${context.method} failed after ${durationMs.toFixed(1)}ms`,
+          { sql: context.sql, error }
+        );
+        this.emitSafely("queryError", { ...context, durationMs, error });
+      },
+    };
+  }
+
+  /**
+   * Run `query`, reporting its start and completion.
+   * @param countRows derives the row count reported in `queryEnd` from the
+   *                  query's result
+   */
+  async trace<T>(
+    context: QueryErrorContext,
+    query: () => Promise<T>,
+    countRows?: (result: T) => number
+  ): Promise<T> {
+    const trace = this.begin(context);
+    try {
+      const result = await query();
+      trace.end(countRows?.(result));
+      return result;
+    } catch (err) {
+      trace.fail(err);
+      throw err;
+    }
+  }
+
+  // an exception thrown by a listener must not fail the query it observes
+  private emitSafely(
+    event: string,
+    payload: QueryStartEvent | QueryEndEvent | QueryErrorEvent
+  ): void {
+    try {
+      this.emit(event, payload);
+    } catch (err) {
+      this.logger?.error(`Instrumentation: ${event} listener failed`, err);
+    }
+  }
+}
@@ -0,0 +1,324 @@
+/**
+ * Schema migrations: applies versioned SQL scripts to a Database in order,
+ * recording the applied ones in a metadata table.
+ */
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import * as path from "path";
+import type { Connection, Database } from "./duckdb-async";
+import { MigrationError } from "./errors";
+import { sql } from "./sql";
+
+export interface Migration {
+  /**
+   * Unique id of the migration. Migrations are applied in the order of their
+   * ids, comparing embedded numbers numerically (so `"2_b"` sorts before
+   * `"10_a"`).
+   */
+  id: string;
+  /** SQL script that applies the migration; may contain several statements. */
+  up: string;
+  /** SQL script that reverts the migration, if it can be reverted. */
+  down?: string;
+}
+
+export interface MigrateOptions {
+  /**
+   * Directory to load migrations from. Every `<id>.sql` or `<id>.up.sql`
+   * file is the `up` script of migration `<id>`, and a matching
+   * `<id>.down.sql` file its `down` script.
+   * Exactly one of `directory` and `migrations` must be given.
+   */
+  directory?: string;
+  /** Migrations to apply; an alternative to `directory`. */
+  migrations?: Migration[];
+  /**
+   * Name of the table recording applied migrations.
+   * Defaults to `"_migrations"`.
+   */
+  tableName?: string;
+  /**
+   * `"up"` (the default) applies pending migrations, `"down"` reverts
+   * applied migrations, most recent first.
+   */
+  direction?: "up" | "down";
+  /**
+   * Id of the target migration. Going up, migrations are applied up to and
+   * including `to`; going down, all migrations applied after `to` are
+   * reverted. By default all pending migrations are applied, or only the
+   * most recent one is reverted.
+   */
+  to?: string;
+  /**
+   * Work out which migrations would be applied or reverted (and verify the
+   * checksums of applied migrations) without changing the database.
+   */
+  dryRun?: boolean;
+}
+
+export interface MigrationResult {
+  /** Ids of the migrations applied (or that would be, in a dry run). */
+  applied: string[];
+  /** Ids of the migrations reverted (or that would be, in a dry run). */
+  reverted: string[];
+}
+
+interface AppliedMigration {
+  id: string;
+  checksum: string;
+}
+
+const compareIds = (a: string, b: string) =>
+  a.localeCompare(b, "en", { numeric: true });
+
+const checksum = (script: string) =>
+  createHash("sha256").update(script).digest("hex");
+
+// migrate() calls on the same Database are serialized, so concurrent callers
+// never race to apply the same migration
+const locks = new WeakMap<Database, Promise<unknown>>();
+
+/**
+ * Bring the schema of `db` up to date by applying all pending migrations in
+ * order, or revert applied migrations with `direction: "down"`.
+ *
+ * Applied migrations are recorded, along with a checksum of their `up`
+ * script, in a metadata table. Each migration runs in its own transaction
+ * together with the update of that table, so a failed migration leaves no
+ * trace. Before changing anything, the checksums of all applied migrations
+ * are verified, so editing a migration after it was applied is reported
+ * rather than silently ignored.
+ * @returns `Promise` that resolves to the ids of the migrations applied or
+ *          reverted
+ */
+export async function migrate(
+  db: Database,
+  options: MigrateOptions
+): Promise<MigrationResult> {
+  const migrations = await loadMigrations(options);
+  const previous = locks.get(db) ?? Promise.resolve();
+  const result = previous
+    .catch(() => undefined)
+    .then(() => migrateInternal(db, migrations, options));
+  locks.set(db, result);
+  return result;
+}
+
+async function migrateInternal(
+  db: Database,
+  migrations: Migration[],
+  options: MigrateOptions
+): Promise<MigrationResult> {
+  const table = sql.identifier(options.tableName ?? "_migrations");
+  const conn = await db.connect();
+  try {
+    if (!options.dryRun) {
+      await conn.exec(
+        sql`CREATE TABLE IF NOT EXISTS ${table} (
+          id VARCHAR PRIMARY KEY,
+          checksum VARCHAR NOT NULL,
+          applied_at TIMESTAMP NOT NULL DEFAULT current_timestamp
+        )`
+      );
+    }
+    const applied = await appliedMigrations(
+      conn,
+      options.tableName ?? "_migrations"
+    );
+    verifyChecksums(migrations, applied);
+
+    if (options.direction === "down") {
+      const reverting = planDown(migrations, applied, options.to);
+      if (!options.dryRun) {
+        for (const migration of reverting) {
+          await runMigration(conn, migration, "down", async () => {
+            await conn.run(
+              sql`DELETE FROM ${table} WHERE id = ${migration.id}`
+            );
+          });
+        }
+      }
+      return { applied: [], reverted: reverting.map((m) => m.id) };
+    }
+
+    const pending = planUp(migrations, applied, options.to);
+    if (!options.dryRun) {
+      for (const migration of pending) {
+        await runMigration(conn, migration, "up", async () => {
+          await conn.run(
+            sql`INSERT INTO ${table} (id, checksum) VALUES (${
+              migration.id
+            }, ${checksum(migration.up)})`
+          );
+        });
+      }
+    }
+    return { applied: pending.map((m) => m.id), reverted: [] };
+  } finally {
+    await conn.close();
+  }
+}
+
+async function appliedMigrations(
+  conn: Connection,
+  tableName: string
+): Promise<AppliedMigration[]> {
+  // in a dry run the metadata table may not have been created yet
+  const [{ exists }] = await conn.all<{ exists: boolean }>(
+    sql`SELECT count(*) > 0 AS "exists" FROM duckdb_tables()
+        WHERE schema_name = current_schema() AND table_name = ${tableName}`
+  );
+  if (!exists) {
+    return [];
+  }
+  const rows = await conn.all<AppliedMigration>(
+    sql`SELECT id, checksum FROM ${sql.identifier(tableName)}`
+  );
+  return rows.sort((a, b) => compareIds(a.id, b.id));
+}
+
+function verifyChecksums(
+  migrations: Migration[],
+  applied: AppliedMigration[]
+): void {
+  const byId = new Map(migrations.map((m) => [m.id, m]));
+  for (const { id, checksum: recorded } of applied) {
+    const migration = byId.get(id);
+    if (!migration) {
+      throw new MigrationError(
+        `migrate: applied migration "${id}" is missing`,
+        id
+      );
+    }
+    if (checksum(migration.up) !== recorded) {
+      throw new MigrationError(
+        `migrate: migration "${id}" was modified after it was applied`,
+        id
+      );
+    }
+  }
+}
+
+function planUp(
+  migrations: Migration[],
+  applied: AppliedMigration[],
+  to?: string
+): Migration[] {
+  if (to !== undefined && !migrations.some((m) => m.id === to)) {
+    throw new MigrationError(`migrate: unknown target migration "${to}"`, to);
+  }
+  const appliedIds = new Set(applied.map((m) => m.id));
+  const latest = applied[applied.length - 1];
+  const pending = migrations.filter(
+    (m) =>
+      !appliedIds.has(m.id) && (to === undefined || compareIds(m.id, to) <= 0)
+  );
+  for (const migration of pending) {
+    if (latest && compareIds(migration.id, latest.id) < 0) {
+      throw new MigrationError(
+        `migrate: pending migration "${migration.id}" sorts before applied migration "${latest.id}"`,
+        migration.id
+      );
+    }
+  }
+  return pending;
+}
+
+function planDown(
+  migrations: Migration[],
+  applied: AppliedMigration[],
+  to?: string
+): Migration[] {
+  const byId = new Map(migrations.map((m) => [m.id, m]));
+  let reverting: AppliedMigration[];
+  if (to === undefined) {
+    reverting = applied.slice(-1);
+  } else {
+    if (!byId.has(to)) {
+      throw new MigrationError(`migrate: unknown target migration "${to}"`, to);
+    }
+    reverting = applied.filter((m) => compareIds(m.id, to) > 0);
+  }
+  return reverting.reverse().map(({ id }) => {
+    const migration = byId.get(id)!;
+    if (migration.down === undefined) {
+      throw new MigrationError(
+        `migrate: migration "${id}" has no down script`,
+        id
+      );
+    }
+    return migration;
+  });
+}
+
+async function runMigration(
+  conn: Connection,
+  migration: Migration,
+  direction: "up" | "down",
+  record: () => Promise<void>
+): Promise<void> {
+  try {
+    await conn.transaction(async () => {
+      await conn.exec(migration[direction]!);
+      await record();
+    });
+  } catch (err) {
+    throw new MigrationError(
+      `migrate: migration "${migration.id}" failed (${direction}): ${
+        err instanceof Error ? err.message : String(err)
+      }`,
+      migration.id,
+      err
+    );
+  }
+}
+
+async function loadMigrations(options: MigrateOptions): Promise<Migration[]> {
+  if (
+    (options.directory === undefined) ===
+    (options.migrations === undefined)
+  ) {
+    throw new MigrationError(
+      "migrate: exactly one of `directory` and `migrations` must be given"
+    );
+  }
+  const migrations =
+    options.migrations ?? (await readDirectory(options.directory!));
+  const ids = new Set<string>();
+  for (const { id } of migrations) {
+    if (ids.has(id)) {
+      throw new MigrationError(`migrate: duplicate migration "${id}"`, id);
+    }
+    ids.add(id);
+  }
+  return [...migrations].sort((a, b) => compareIds(a.id, b.id));
+}
+
+async function readDirectory(directory: string): Promise<Migration[]> {
+  const scripts = new Map<string, { up?: string; down?: string }>();
+  for (const file of await fs.readdir(directory)) {
+    const match = /^(.+?)(?:\.(up|down))?\.sql$/.exec(file);
+    if (!match) {
+      continue;
+    }
+    const [, id, direction = "up"] = match;
+    const entry = scripts.get(id) ?? {};
+    if (entry[direction as "up" | "down"] !== undefined) {
+      throw new MigrationError(`migrate: duplicate migration "${id}"`, id);
+    }
+    entry[direction as "up" | "down"] = await fs.readFile(
+      path.join(directory, file),
+      "utf8"
+    );
+    scripts.set(id, entry);
+  }
+  return Array.from(scripts, ([id, { up, down }]) => {
+    if (up === undefined) {
+      throw new MigrationError(
+        `migrate: migration "${id}" has a down script but no up script`,
+        id
+      );
+    }
+    return { id, up, down };
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * Named query parameters: `$name` placeholders bound from an object.
+ */
+import { DuckDbAsyncError } from "./errors";
+
+export interface ParsedSql {
+  /** The SQL text, with `$name` placeholders replaced by numbered ones. */
+  text: string;
+  /** Names of the named parameters, in the order of their numbers. */
+  names: string[];
+  /** Whether the SQL text contains more than one statement. */
+  multipleStatements: boolean;
+}
+
+// $tag$ or $$ opening a dollar-quoted string
+const dollarQuote = /\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/y;
+const namedParam = /\$([A-Za-z_][A-Za-z0-9_]*)/y;
+const numberedParam = /\$[0-9]+/y;
+
+/*
+ * Scan SQL text for `$name` parameter placeholders, skipping string
+ * literals, quoted identifiers and comments, and replace each with a
+ * numbered `$n` placeholder (reusing the number for repeated names).
+ */
+export function parseSql(method: string, sql: string): ParsedSql {
+  const names: string[] = [];
+  let text = "";
+  let copied = 0;
+  let numbered = false;
+  let afterSemicolon = false;
+  let multipleStatements = false;
+  let i = 0;
+  while (i < sql.length) {
+    const c = sql[i];
+    if (c === "-" && sql[i + 1] === "-") {
+      const end = sql.indexOf("\n", i);
+      i = end < 0 ? sql.length : end + 1;
+      continue;
+    }
+    if (c === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end < 0 ? sql.length : end + 2;
+      continue;
+    }
+    if (c === ";") {
+      afterSemicolon = true;
+      i++;
+      continue;
+    }
+    if (afterSemicolon && !/\s/.test(c)) {
+      multipleStatements = true;
+    }
+    if (c === "'" || c === '"') {
+      // a doubled quote character escapes itself, so simply skipping from
+      // quote to quote handles it
+      const end = sql.indexOf(c, i + 1);
+      i = end < 0 ? sql.length : end + 1;
+      continue;
+    }
+    if (c === "$") {
+      dollarQuote.lastIndex = i;
+      const quote = dollarQuote.exec(sql);
+      if (quote) {
+        const end = sql.indexOf(quote[0], dollarQuote.lastIndex);
+        i = end < 0 ? sql.length : end + quote[0].length;
+        continue;
+      }
+      namedParam.lastIndex = i;
+      const param = namedParam.exec(sql);
+      if (param) {
+        let index = names.indexOf(param[1]);
+        if (index < 0) {
+          index = names.push(param[1]) - 1;
+        }
+        text += sql.slice(copied, i) + `$${index + 1}`;
+        i = copied = namedParam.lastIndex;
+        continue;
+      }
+      numberedParam.lastIndex = i;
+      if (numberedParam.exec(sql)) {
+        numbered = true;
+        i = numberedParam.lastIndex;
+        continue;
+      }
+    }
+    i++;
+  }
+  if (numbered && names.length > 0) {
+    throw new DuckDbAsyncError(
+      `${method}: named and numbered parameters can not be mixed`,
+      method
+    );
+  }
+  return {
+    text: names.length > 0 ? text + sql.slice(copied) : sql,
+    names,
+    multipleStatements,
+  };
+}
+
+/*
+ * Whether `args` consists of a single plain object, i.e. named parameters.
+ * The DuckDb NodeJS API binds plain objects as "[object Object]", so they
+ * can not be meant as positional parameters.
+ */
+export function isNamedParams(
+  args: readonly unknown[]
+): args is [Record<string, unknown>] {
+  if (args.length !== 1 || typeof args[0] !== "object" || args[0] === null) {
+    return false;
+  }
+  const proto = Object.getPrototypeOf(args[0]);
+  return proto === Object.prototype || proto === null;
+}
+
+/*
+ * Order the values of named parameters by the numbers assigned to their
+ * names by parseSql().
+ */
+export function bindNamedParams(
+  method: string,
+  names: readonly string[],
+  values: Record<string, unknown>
+): unknown[] {
+  if (names.length === 0) {
+    throw new DuckDbAsyncError(
+      `${method}: named parameters passed to a query without $name placeholders`,
+      method
+    );
+  }
+  return names.map((name) => {
+    if (!Object.prototype.hasOwnProperty.call(values, name)) {
+      throw new DuckDbAsyncError(
+        `${method}: missing value for parameter $${name}`,
+        method
+      );
+    }
+    return values[name];
+  });
+}
@@ -0,0 +1,254 @@
+/**
+ * A bounded pool of Connections to a single Database.
+ */
+import type { Connection, Database } from "./duckdb-async";
+import { DuckDbAsyncError } from "./errors";
+
+export interface PoolOptions {
+  /**
+   * Number of connections opened up front and kept open while idle.
+   * Defaults to 0.
+   */
+  min?: number;
+  /** Maximum number of connections opened at the same time. Defaults to 4. */
+  max?: number;
+  /**
+   * Maximum time in milliseconds `acquire()` waits for a connection to become
+   * available before rejecting. Defaults to 30000.
+   */
+  acquireTimeoutMs?: number;
+  /**
+   * Time in milliseconds after which an idle connection is closed, as long as
+   * more than `min` connections are open. Defaults to 30000.
+   */
+  idleTimeoutMs?: number;
+}
+
+interface IdleConnection {
+  conn: Connection;
+  idleSince: number;
+}
+
+interface Waiter {
+  resolve: (conn: Connection) => void;
+  reject: (reason: any) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class ConnectionPool {
+  private readonly min: number;
+  private readonly max: number;
+  private readonly acquireTimeoutMs: number;
+  private readonly idleTimeoutMs: number;
+
+  private idle: IdleConnection[] = [];
+  private inUse = new Set<Connection>();
+  private opening = 0;
+  private waiters: Waiter[] = [];
+  private evictionTimer: NodeJS.Timeout | null = null;
+  private draining: Promise<void> | null = null;
+  private drained: (() => void) | null = null;
+
+  private constructor(private db: Database, options: PoolOptions) {
+    this.min = options.min ?? 0;
+    this.max = options.max ?? 4;
+    this.acquireTimeoutMs = options.acquireTimeoutMs ?? 30000;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 30000;
+    if (this.max < 1 || this.min < 0 || this.min > this.max) {
+      throw new DuckDbAsyncError(
+        `ConnectionPool.create: invalid pool size (min: ${this.min}, max: ${this.max})`,
+        "ConnectionPool.create"
+      );
+    }
+  }
+
+  /**
+   * Static method to create a new ConnectionPool for `db`, opening `min`
+   * connections before the returned promise resolves.
+   * The pool is drained automatically when `db` is closed.
+   */
+  static async create(
+    db: Database,
+    options: PoolOptions = {}
+  ): Promise<ConnectionPool> {
+    const pool = new ConnectionPool(db, options);
+    db.add_pool_internal(pool);
+    try {
+      const conns = await Promise.all(
+        Array.from({ length: pool.min }, () => db.connect())
+      );
+      const now = Date.now();
+      pool.idle = conns.map((conn) => ({ conn, idleSince: now }));
+    } catch (err) {
+      await pool.drain();
+      throw err;
+    }
+    pool.evictionTimer = setInterval(
+      () => pool.evictIdle(),
+      Math.max(pool.idleTimeoutMs / 2, 10)
+    );
+    pool.evictionTimer.unref();
+    return pool;
+  }
+
+  /** Total number of open (or opening) connections. */
+  get size(): number {
+    return this.idle.length + this.inUse.size + this.opening;
+  }
+
+  /** Number of open connections not currently acquired. */
+  get idleCount(): number {
+    return this.idle.length;
+  }
+
+  /** Number of connections currently acquired. */
+  get inUseCount(): number {
+    return this.inUse.size;
+  }
+
+  /**
+   * Acquire a connection from the pool, opening a new one if none is idle and
+   * the pool is below its maximum size. Otherwise waits for a connection to be
+   * released, for at most `acquireTimeoutMs`.
+   * Every acquired connection must be handed back with `release()`; prefer
+   * `use()`, which does so automatically.
+   */
+  async acquire(): Promise<Connection> {
+    if (this.draining) {
+      throw new DuckDbAsyncError(
+        "ConnectionPool.acquire: pool is draining",
+        "ConnectionPool.acquire"
+      );
+    }
+    const idle = this.idle.pop();
+    if (idle) {
+      this.inUse.add(idle.conn);
+      return idle.conn;
+    }
+    if (this.size < this.max) {
+      this.opening++;
+      let conn: Connection;
+      try {
+        conn = await this.db.connect();
+      } catch (err) {
+        this.opening--;
+        this.checkDrained();
+        throw err;
+      }
+      this.opening--;
+      this.inUse.add(conn);
+      return conn;
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters = this.waiters.filter((w) => w !== waiter);
+          reject(
+            new DuckDbAsyncError(
+              `ConnectionPool.acquire: timed out after ${this.acquireTimeoutMs}ms waiting for a connection`,
+              "ConnectionPool.acquire"
+            )
+          );
+        }, this.acquireTimeoutMs),
+      };
+      this.waiters.push(waiter);
+    });
+  }
+
+  /**
+   * Hand a connection obtained from `acquire()` back to the pool.
+   */
+  release(conn: Connection): void {
+    if (!this.inUse.delete(conn)) {
+      throw new DuckDbAsyncError(
+        "ConnectionPool.release: connection was not acquired from this pool",
+        "ConnectionPool.release"
+      );
+    }
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      this.inUse.add(conn);
+      waiter.resolve(conn);
+      return;
+    }
+    if (this.draining) {
+      conn.close().catch(() => undefined);
+      this.checkDrained();
+      return;
+    }
+    this.idle.push({ conn, idleSince: Date.now() });
+  }
+
+  /**
+   * Acquire a connection, pass it to `fn`, and release it once the promise
+   * returned by `fn` settles.
+   * @returns `Promise` that resolves to the value returned by `fn`
+   */
+  async use<T>(fn: (conn: Connection) => Promise<T>): Promise<T> {
+    const conn = await this.acquire();
+    try {
+      return await fn(conn);
+    } finally {
+      this.release(conn);
+    }
+  }
+
+  /**
+   * Stop handing out connections, wait for all acquired connections to be
+   * released, and close every connection in the pool.
+   * Pending `acquire()` calls are rejected. Called by `Database.close()`.
+   */
+  drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.drainInternal();
+    }
+    return this.draining;
+  }
+
+  private async drainInternal(): Promise<void> {
+    if (this.evictionTimer) {
+      clearInterval(this.evictionTimer);
+      this.evictionTimer = null;
+    }
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(
+        new DuckDbAsyncError(
+          "ConnectionPool.acquire: pool is draining",
+          "ConnectionPool.acquire"
+        )
+      );
+    }
+    if (this.inUse.size > 0 || this.opening > 0) {
+      await new Promise<void>((resolve) => {
+        this.drained = resolve;
+      });
+    }
+    const idle = this.idle.splice(0);
+    await Promise.all(idle.map(({ conn }) => conn.close()));
+    this.db.remove_pool_internal(this);
+  }
+
+  private checkDrained(): void {
+    if (this.drained && this.inUse.size === 0 && this.opening === 0) {
+      this.drained();
+      this.drained = null;
+    }
+  }
+
+  private evictIdle(): void {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    // idle is ordered by release time, so the oldest connections come first
+    while (
+      this.idle.length > 0 &&
+      this.size > this.min &&
+      this.idle[0].idleSince <= cutoff
+    ) {
+      const { conn } = this.idle.shift()!;
+      conn.close().catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Arguments, cancellation and error handling shared by the query methods of
+ * `Connection`, `Database` and `Statement`.
+ */
+import type { Instrumentation } from "./instrumentation";
+import {
+  DuckDbAsyncError,
+  QueryCancelledError,
+  QueryErrorContext,
+  QueryTimeoutError,
+  redactParams,
+  toQueryError,
+} from "./errors";
+import { bindNamedParams, isNamedParams, parseSql } from "./params";
+import type { SqlQuery } from "./sql";
+
+/**
+ * Options accepted as an optional last argument, after any query
+ * parameters, by the async query methods of `Connection`, `Database`
+ * and `Statement`. A trailing plain object with no other keys, including
+ * `{}`, is always taken as options rather than as a parameter.
+ *
+ * A cancelled query is interrupted: the database is interrupted if no other
+ * query is running on it, and `all()` and the iterators, which fetch the
+ * result chunk by chunk, stop fetching and release the query's statement.
+ */
+export interface QueryOptions {
+  /** Cancels the query with `QueryCancelledError` when aborted. */
+  signal?: AbortSignal;
+  /**
+   * Cancels the query with `QueryTimeoutError` if it has not completed
+   * after this many milliseconds.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * A function that validates and/or converts a raw result row, throwing if
+ * the row does not have the expected shape.
+ * See `Statement.withRowParser()` and `RowQueryOptions`.
+ */
+export type RowParser<T> = (row: unknown) => T;
+
+/**
+ * Options accepted by the query methods of `Connection` and `Database` that
+ * return rows (`all()`, `allWithMetadata()`, `iterate()` and
+ * `iterateChunks()`).
+ */
+export interface RowQueryOptions<T = any> extends QueryOptions {
+  /**
+   * Applied to every result row, so rows can be validated or converted at
+   * the boundary; pass the row type it returns as the method's type
+   * parameter.
+   */
+  parseRow?: RowParser<T>;
+}
+
+const OPTION_KEYS = ["signal", "timeoutMs", "parseRow"];
+
+/*
+ * DuckDb binds a plain object parameter as the string "[object Object]",
+ * so a trailing plain object with no keys other than those of QueryOptions
+ * can not be a meaningful parameter and is taken to be options instead.
+ */
+function isQueryOptions(arg: unknown): arg is RowQueryOptions {
+  return (
+    typeof arg === "object" &&
+    arg !== null &&
+    Object.getPrototypeOf(arg) === Object.prototype &&
+    Object.keys(arg).every((key) => OPTION_KEYS.includes(key))
+  );
+}
+
+export function takeQueryOptions(args: any[]): [any[], RowQueryOptions] {
+  const last = args[args.length - 1];
+  return isQueryOptions(last) ? [args.slice(0, -1), last] : [args, {}];
+}
+
+/** Whether `options` request the cancellation of a query. */
+export function isCancellable(options: QueryOptions): boolean {
+  return options.signal !== undefined || options.timeoutMs !== undefined;
+}
+
+/** Apply `parseRow`, if given, to every row of `rows`. */
+export function parseRows<T>(
+  rows: unknown[],
+  parseRow: RowParser<T> | undefined
+): T[] {
+  return parseRow ? rows.map((row) => parseRow(row)) : (rows as T[]);
+}
+
+/*
+ * The context of a query reported to `Instrumentation` and by its errors,
+ * with the parameters replaced by `"[redacted]"` if `redact` is set.
+ */
+export function queryContext(
+  method: string,
+  sql: string,
+  params: readonly unknown[],
+  redact: boolean
+): QueryErrorContext {
+  return { method, sql, params: redact ? redactParams(params) : params };
+}
+
+export interface CancellationWatch {
+  cancelled: Promise<never>;
+  dispose: () => void;
+}
+
+/*
+ * Returns a promise that rejects once `options.signal` is aborted or
+ * `options.timeoutMs` elapses, calling `interrupt` first to stop the work
+ * already started, along with a function to stop watching for either; or
+ * null if neither was requested.
+ */
+export function watchCancellation(
+  method: string,
+  options: QueryOptions,
+  interrupt: () => void = () => undefined
+): CancellationWatch | null {
+  const { signal, timeoutMs } = options;
+  if (!isCancellable(options)) {
+    return null;
+  }
+  let dispose: () => void = () => undefined;
+  const cancelled = new Promise<never>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new QueryCancelledError(method, signal.reason));
+      return;
+    }
+    const onAbort = () => {
+      interrupt();
+      reject(new QueryCancelledError(method, signal?.reason));
+    };
+    const timer =
+      timeoutMs === undefined
+        ? null
+        : setTimeout(() => {
+            interrupt();
+            reject(new QueryTimeoutError(method, timeoutMs));
+          }, timeoutMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    dispose = () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener("abort", onAbort);
+    };
+  });
+  // callers race against this promise, which may reject between races
+  cancelled.catch(() => undefined);
+  return { cancelled, dispose };
+}
+
+export function raceCancellation<T>(
+  watch: CancellationWatch | null,
+  work: Promise<T>
+): Promise<T> {
+  if (!watch) {
+    return work;
+  }
+  // once cancelled, the outcome of the abandoned work is of no interest
+  work.catch(() => undefined);
+  return Promise.race([work, watch.cancelled]);
+}
+
+/*
+ * Runs `query` unless the signal has already been aborted, rejecting early
+ * and calling `interrupt` if it is cancelled or times out.
+ */
+export async function withCancellation<T>(
+  method: string,
+  options: QueryOptions,
+  query: () => Promise<T>,
+  interrupt?: () => void
+): Promise<T> {
+  const watch = watchCancellation(method, options, interrupt);
+  if (!watch) {
+    return query();
+  }
+  try {
+    if (options.signal?.aborted) {
+      return await watch.cancelled;
+    }
+    return await raceCancellation(watch, query());
+  } finally {
+    watch.dispose();
+  }
+}
+
+/*
+ * Runs a query with the cancellation behavior requested in `options`,
+ * translating errors reported by DuckDb into QueryError subclasses and
+ * reporting the query to `instrumentation`.
+ */
+export function runQuery<T>(
+  instrumentation: Instrumentation,
+  context: QueryErrorContext,
+  options: QueryOptions,
+  query: () => Promise<T>,
+  countRows?: (result: T) => number
+): Promise<T> {
+  return instrumentation.trace(
+    context,
+    async () => {
+      try {
+        return await withCancellation(context.method, options, query, () =>
+          instrumentation.interrupt_internal()
+        );
+      } catch (err) {
+        throw toQueryError(err, context);
+      }
+    },
+    countRows
+  );
+}
+
+/*
+ * Flatten a query into the `sql, ...params` arguments expected by the
+ * DuckDb NodeJS API. Values interpolated into a `sql` template become the
+ * leading parameters, and named parameters passed as an object are bound
+ * to numbered placeholders; any trailing callback in `args` is preserved.
+ */
+export function queryArgs(
+  method: string,
+  query: string | SqlQuery,
+  args: any[]
+): [string, ...any[]] {
+  if (typeof query !== "string" && query.values.length > 0) {
+    if (args.some((arg) => typeof arg !== "function")) {
+      throw new DuckDbAsyncError(
+        `${method}: parameters can not be passed in addition to a sql template with interpolated values`,
+        method
+      );
+    }
+    return [query.text, ...query.values, ...args];
+  }
+  const text = typeof query === "string" ? query : query.text;
+  const hasCallback = typeof args[args.length - 1] === "function";
+  const params = hasCallback ? args.slice(0, -1) : args;
+  if (isNamedParams(params)) {
+    const parsed = parseSql(method, text);
+    return [
+      parsed.text,
+      ...bindNamedParams(method, parsed.names, params[0]),
+      ...(hasCallback ? args.slice(-1) : []),
+    ];
+  }
+  return [text, ...args];
+}
+
+/*
+ * SQL text of a query that is prepared rather than executed, where there
+ * is nothing to bind interpolated values to.
+ */
+export function queryText(
+  method: string,
+  query: string | SqlQuery
+): string {
+  if (typeof query === "string") {
+    return query;
+  }
+  if (query.values.length > 0) {
+    throw new DuckDbAsyncError(
+      `${method}: sql template with interpolated values can not be prepared; pass parameters when executing the statement`,
+      method
+    );
+  }
+  return query.text;
+}
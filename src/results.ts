@@ -0,0 +1,51 @@
+/**
+ * Query results along with the names and types of their columns.
+ */
+import type { ColumnInfo } from "duckdb";
+
+/**
+ * The rows returned by a query, with metadata describing them.
+ * See `Connection.allWithMetadata()`.
+ */
+export interface ResultWithMetadata<T> {
+  rows: T[];
+  /**
+   * Name and type of each column, in order. Available even when the query
+   * returns no rows.
+   */
+  columns: ColumnInfo[];
+  rowCount: number;
+  /** Time taken to execute the query and fetch its rows. */
+  elapsedMs: number;
+}
+
+/**
+ * A query result in columnar form: the values of each column, keyed by
+ * column name, in row order. See `toColumnar()`.
+ */
+export interface ColumnarResult {
+  columns: ColumnInfo[];
+  values: Record<string, unknown[]>;
+  rowCount: number;
+  elapsedMs: number;
+}
+
+/**
+ * Convert a result to columnar form, e.g. for charting libraries that
+ * expect one array of values per series. Every column has an array of
+ * values, so a result without rows has an empty array per column.
+ */
+export function toColumnar(
+  result: ResultWithMetadata<Record<string, unknown>>
+): ColumnarResult {
+  const values: Record<string, unknown[]> = {};
+  for (const { name } of result.columns) {
+    values[name] = result.rows.map((row) => row[name]);
+  }
+  return {
+    columns: result.columns,
+    values,
+    rowCount: result.rowCount,
+    elapsedMs: result.elapsedMs,
+  };
+}
@@ -0,0 +1,225 @@
+/**
+ * Typed DuckDb configuration options, validated before a database is opened,
+ * and access to the settings of an open database.
+ */
+import type { Database } from "./duckdb-async";
+import { DuckDbAsyncError } from "./errors";
+import { sql } from "./sql";
+
+export type AccessMode = "automatic" | "read_only" | "read_write";
+
+/**
+ * DuckDb configuration options, by their DuckDb setting names.
+ * See https://duckdb.org/docs/configuration/overview for details.
+ */
+export interface DatabaseConfig {
+  /** Whether the database is opened read-only. Defaults to `"read_write"`. */
+  access_mode?: AccessMode;
+  /** Number of threads used to run queries. */
+  threads?: number;
+  /** Maximum memory used by the database, e.g. `"4GB"`. */
+  memory_limit?: string;
+  /** Directory that data not fitting in memory is spilled to. */
+  temp_directory?: string;
+  /** Maximum size of the temp directory, e.g. `"10GB"`. */
+  max_temp_directory_size?: string;
+  /** Allow loading extensions without a valid signature. */
+  allow_unsigned_extensions?: boolean;
+  autoinstall_known_extensions?: boolean;
+  autoload_known_extensions?: boolean;
+  /** Directory extensions are installed to. */
+  extension_directory?: string;
+  /** Allow access to files and the network outside the database. */
+  enable_external_access?: boolean;
+  preserve_insertion_order?: boolean;
+  default_order?: "asc" | "desc";
+  /** Appended to the user agent DuckDb reports, e.g. `"my-service/1.2"`. */
+  custom_user_agent?: string;
+}
+
+/** A value of a DuckDb setting, converted to its string form when opening. */
+export type SettingValue = string | number | boolean;
+
+type SettingKind = "integer" | "boolean" | "string" | readonly string[];
+
+const SETTINGS: Record<keyof DatabaseConfig, SettingKind> = {
+  access_mode: ["automatic", "read_only", "read_write"],
+  threads: "integer",
+  memory_limit: "string",
+  temp_directory: "string",
+  max_temp_directory_size: "string",
+  allow_unsigned_extensions: "boolean",
+  autoinstall_known_extensions: "boolean",
+  autoload_known_extensions: "boolean",
+  extension_directory: "string",
+  enable_external_access: "boolean",
+  preserve_insertion_order: "boolean",
+  default_order: ["asc", "desc"],
+  custom_user_agent: "string",
+};
+
+// other names DuckDb accepts for settings
+const ALIASES: Record<string, keyof DatabaseConfig> = {
+  max_memory: "memory_limit",
+  worker_threads: "threads",
+};
+
+/**
+ * The options of `DatabaseConfig` (and the other names DuckDb accepts for
+ * them) as strings, validated like `DatabaseConfig`.
+ * @deprecated use `DatabaseConfig`.
+ */
+export type DatabaseConfigStrings = {
+  [K in keyof DatabaseConfig | "max_memory" | "worker_threads"]?: string;
+};
+
+function settingKind(name: string): SettingKind | undefined {
+  return Object.prototype.hasOwnProperty.call(SETTINGS, name)
+    ? SETTINGS[name as keyof DatabaseConfig]
+    : undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function unknownSetting(method: string, name: string): DuckDbAsyncError {
+  const closest = Object.keys(SETTINGS)
+    .map((known) => ({ known, distance: editDistance(name, known) }))
+    .sort((x, y) => x.distance - y.distance)[0];
+  const hint =
+    closest.distance <= 3 ? ` (did you mean "${closest.known}"?)` : "";
+  return new DuckDbAsyncError(
+    `${method}: unknown configuration option "${name}"${hint}; pass options DuckDb supports that are not listed in DatabaseConfig in \`config\``,
+    method
+  );
+}
+
+/*
+ * Check the value of setting `name` against its kind, returning its string
+ * form. Strings are accepted for all kinds, as DuckDb parses setting values
+ * from strings.
+ */
+function settingValue(
+  method: string,
+  name: string,
+  kind: SettingKind,
+  value: SettingValue
+): string {
+  const invalid = (expected: string) =>
+    new DuckDbAsyncError(
+      `${method}: invalid value ${JSON.stringify(value)} for "${name}", expected ${expected}`,
+      method
+    );
+  const text = String(value);
+  if (kind === "integer") {
+    if (!/^[1-9][0-9]*$/.test(text)) {
+      throw invalid("a positive integer");
+    }
+  } else if (kind === "boolean") {
+    if (!/^(true|false)$/i.test(text)) {
+      throw invalid("a boolean");
+    }
+  } else if (kind === "string") {
+    if (typeof value !== "string" || value === "") {
+      throw invalid("a non-empty string");
+    }
+  } else if (!kind.includes(text.toLowerCase())) {
+    throw invalid(kind.map((option) => `"${option}"`).join(" or "));
+  }
+  return text;
+}
+
+/*
+ * Validate typed configuration options, and convert them together with the
+ * unchecked options in `extra` to the string record the DuckDb NodeJS API
+ * expects.
+ */
+export function configRecord(
+  method: string,
+  config: Record<string, SettingValue | undefined>,
+  extra: Record<string, SettingValue> = {}
+): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const [name, value] of Object.entries(config)) {
+    if (value === undefined) {
+      continue;
+    }
+    const kind = settingKind(ALIASES[name] ?? name);
+    if (!kind) {
+      throw unknownSetting(method, name);
+    }
+    record[name] = settingValue(method, name, kind, value);
+  }
+  for (const [name, value] of Object.entries(extra)) {
+    record[name] = String(value);
+  }
+  return record;
+}
+
+export interface SetSettingOptions {
+  /**
+   * `"global"` changes the setting for all connections, `"session"` only
+   * for the connection running the statement. Defaults to DuckDb's default
+   * scope for the setting.
+   */
+  scope?: "global" | "session";
+}
+
+/*
+ * The current value of every setting, as reported by duckdb_settings().
+ */
+export async function getSettings(
+  db: Database
+): Promise<Record<string, string>> {
+  const rows = await db.all<{ name: string; value: string | null }>(
+    "SELECT name, value FROM duckdb_settings() ORDER BY name"
+  );
+  const settings: Record<string, string> = {};
+  for (const { name, value } of rows) {
+    settings[name] = value ?? "";
+  }
+  return settings;
+}
+
+export async function getSetting(db: Database, name: string): Promise<unknown> {
+  const [row] = await db.all("SELECT current_setting(?) AS value", name);
+  return row.value;
+}
+
+export async function setSetting(
+  db: Database,
+  name: string,
+  value: SettingValue,
+  options: SetSettingOptions = {}
+): Promise<void> {
+  const method = "Database.setSetting";
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new DuckDbAsyncError(
+      `${method}: invalid setting name "${name}"`,
+      method
+    );
+  }
+  const kind = settingKind(ALIASES[name] ?? name);
+  if (kind) {
+    settingValue(method, name, kind, value);
+  }
+  const scope = options.scope ? `${options.scope.toUpperCase()} ` : "";
+  // SET does not accept parameters
+  await db.set_setting_internal(
+    `SET ${scope}${name} = ${sql.literal(value).text}`,
+    options.scope === "global"
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * Tagged template for building parameterized SQL queries.
+ */
+import { DuckDbAsyncError } from "./errors";
+
+/**
+ * SQL text with positional `?` placeholders, together with the values
+ * bound to those placeholders. Created with the `sql` template tag and
+ * accepted in place of a SQL string by the query methods of `Connection`
+ * and `Database`.
+ */
+export class SqlQuery {
+  constructor(readonly text: string, readonly values: readonly unknown[]) {}
+}
+
+/**
+ * Tag for template literals that turns every interpolated value into a
+ * positional `?` parameter, so values never end up in the SQL text itself:
+ *
+ * ```typescript
+ * await conn.all(sql`SELECT * FROM users WHERE id = ${id}`);
+ * ```
+ *
+ * Interpolated `SqlQuery` objects (such as other `sql` fragments, or the
+ * results of `sql.identifier()` and `sql.join()`) are spliced in together
+ * with their parameters, so queries can be composed from fragments.
+ */
+export function sql(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): SqlQuery {
+  let text = strings[0];
+  const params: unknown[] = [];
+  values.forEach((value, i) => {
+    if (value instanceof SqlQuery) {
+      text += value.text;
+      params.push(...value.values);
+    } else {
+      text += "?";
+      params.push(value);
+    }
+    text += strings[i + 1];
+  });
+  return new SqlQuery(text, params);
+}
+
+/**
+ * A quoted SQL identifier, for table or column names that can not be bound
+ * as parameters. An array is treated as a qualified name, e.g.
+ * `sql.identifier(["main", "users"])` produces `"main"."users"`.
+ */
+sql.identifier = function (name: string | string[]): SqlQuery {
+  const parts = typeof name === "string" ? [name] : name;
+  if (parts.length === 0) {
+    throw new DuckDbAsyncError(
+      "sql.identifier: identifier must not be empty",
+      "sql.identifier"
+    );
+  }
+  const text = parts.map((part) => `"${part.replace(/"/g, '""')}"`).join(".");
+  return new SqlQuery(text, []);
+};
+
+/**
+ * A SQL literal, for statements that do not accept parameters, such as
+ * `SET`, `INSTALL` or `ATTACH`. Strings are quoted and escaped; prefer
+ * parameters wherever they can be used.
+ */
+sql.literal = function (value: string | number | boolean): SqlQuery {
+  if (typeof value === "string") {
+    return new SqlQuery(`'${value.replace(/'/g, "''")}'`, []);
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new DuckDbAsyncError(
+      `sql.literal: ${value} has no SQL literal`,
+      "sql.literal"
+    );
+  }
+  return new SqlQuery(String(value), []);
+};
+
+/**
+ * Join values into a single fragment, with each value bound as a parameter
+ * (or spliced in, for `SqlQuery` values). Useful for IN-lists:
+ *
+ * ```typescript
+ * sql`SELECT * FROM users WHERE id IN (${sql.join(ids)})`
+ * ```
+ *
+ * Note that joining an empty array produces an empty fragment.
+ * @param values values to join
+ * @param separator fragment placed between values, defaults to `, `
+ */
+sql.join = function (
+  values: readonly unknown[],
+  separator: SqlQuery = new SqlQuery(", ", [])
+): SqlQuery {
+  let text = "";
+  const params: unknown[] = [];
+  values.forEach((value, i) => {
+    if (i > 0) {
+      text += separator.text;
+      params.push(...separator.values);
+    }
+    if (value instanceof SqlQuery) {
+      text += value.text;
+      params.push(...value.values);
+    } else {
+      text += "?";
+      params.push(value);
+    }
+  });
+  return new SqlQuery(text, params);
+};
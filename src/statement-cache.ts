@@ -0,0 +1,101 @@
+/**
+ * A least-recently-used cache of prepared statements, keyed by SQL text.
+ */
+
+interface CacheEntry<S> {
+  stmt: Promise<S>;
+  users: number;
+  evicted: boolean;
+}
+
+export class StatementCache<S> {
+  // Map iterates in insertion order, so re-inserting an entry on every use
+  // keeps the least recently used entry first
+  private entries = new Map<string, CacheEntry<S>>();
+
+  /**
+   * @param capacity maximum number of statements kept prepared
+   * @param finalize releases a statement once it is evicted and unused
+   */
+  constructor(
+    readonly capacity: number,
+    private finalize: (stmt: S) => Promise<void>
+  ) {}
+
+  /** Number of statements currently cached. */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(sql: string): boolean {
+    return this.entries.has(sql);
+  }
+
+  /**
+   * Pass the cached statement for `sql` to `fn`, preparing it with `prepare`
+   * if it is not cached. A statement evicted while in use is finalized once
+   * `fn` settles.
+   */
+  async use<T>(
+    sql: string,
+    prepare: () => Promise<S>,
+    fn: (stmt: S) => Promise<T>
+  ): Promise<T> {
+    let entry = this.entries.get(sql);
+    if (entry) {
+      this.entries.delete(sql);
+    } else {
+      entry = { stmt: prepare(), users: 0, evicted: false };
+      const prepared = entry;
+      // a statement that failed to prepare must not stay cached
+      prepared.stmt.catch(() => {
+        if (this.entries.get(sql) === prepared) {
+          this.entries.delete(sql);
+        }
+      });
+    }
+    this.entries.set(sql, entry);
+    entry.users++;
+    this.evictOverflow();
+    try {
+      return await fn(await entry.stmt);
+    } finally {
+      entry.users--;
+      this.release(entry).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Evict all statements, finalizing them once they are no longer in use.
+   */
+  async clear(): Promise<void> {
+    const entries = Array.from(this.entries.values());
+    this.entries.clear();
+    await Promise.all(entries.map((entry) => this.evict(entry)));
+  }
+
+  private evictOverflow(): void {
+    while (this.entries.size > this.capacity) {
+      const [sql, entry] = this.entries.entries().next().value!;
+      this.entries.delete(sql);
+      this.evict(entry).catch(() => undefined);
+    }
+  }
+
+  private evict(entry: CacheEntry<S>): Promise<void> {
+    entry.evicted = true;
+    return this.release(entry);
+  }
+
+  private async release(entry: CacheEntry<S>): Promise<void> {
+    if (entry.evicted && entry.users === 0) {
+      let stmt: S;
+      try {
+        stmt = await entry.stmt;
+      } catch {
+        return; // never prepared, nothing to finalize
+      }
+      await this.finalize(stmt);
+    }
+  }
+}
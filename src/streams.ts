@@ -0,0 +1,193 @@
+/**
+ * Export of query results as Node and web byte streams, in CSV, NDJSON or
+ * Arrow IPC format.
+ */
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+import type { Connection, Database, QueryOptions } from "./duckdb-async";
+import { toQueryError } from "./errors";
+import { queryContext, raceCancellation, watchCancellation } from "./query";
+import { SqlQuery } from "./sql";
+
+export type StreamFormat = "csv" | "ndjson" | "arrow";
+
+export interface ToStreamOptions extends QueryOptions {
+  /**
+   * Output format: `"csv"`, newline-delimited JSON (`"ndjson"`), or the
+   * Arrow IPC stream format (`"arrow"`, requires DuckDb's `arrow` extension).
+   */
+  format: StreamFormat;
+  /** CSV field delimiter. Defaults to `","`. */
+  delimiter?: string;
+  /** Whether CSV output starts with a header row. Defaults to true. */
+  header?: boolean;
+}
+
+/*
+ * JSON.stringify replacer for values DuckDb returns that JSON can not
+ * represent: BigInts become strings (to keep their precision), and BLOBs
+ * base64 strings. Dates are serialized by their own toJSON().
+ */
+function jsonReplacer(this: any, key: string, value: unknown): unknown {
+  const raw = this[key];
+  if (Buffer.isBuffer(raw)) {
+    return raw.toString("base64");
+  }
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+function csvField(value: unknown, delimiter: string): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    return "";
+  } else if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (Buffer.isBuffer(value)) {
+    text = value.toString("base64");
+  } else if (typeof value === "object") {
+    text = JSON.stringify(value, jsonReplacer);
+  } else {
+    text = String(value);
+  }
+  return text.includes(delimiter) || /["\r\n]/.test(text)
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+async function* csvLines(
+  columns: string[],
+  chunks: AsyncIterable<Record<string, unknown>[]>,
+  options: ToStreamOptions
+): AsyncGenerator<string, void, undefined> {
+  const delimiter = options.delimiter ?? ",";
+  const line = (values: unknown[]) =>
+    values.map((value) => csvField(value, delimiter)).join(delimiter) + "\n";
+  if (options.header ?? true) {
+    yield line(columns);
+  }
+  for await (const chunk of chunks) {
+    yield chunk.map((row) => line(columns.map((c) => row[c]))).join("");
+  }
+}
+
+async function* ndjsonLines(
+  chunks: AsyncIterable<Record<string, unknown>[]>
+): AsyncGenerator<string, void, undefined> {
+  for await (const chunk of chunks) {
+    yield chunk.map((row) => JSON.stringify(row, jsonReplacer) + "\n").join("");
+  }
+}
+
+/*
+ * The Arrow IPC batches of a query, followed by the end-of-stream marker
+ * arrowIPCAll() appends too. Cancellation stops fetching further batches.
+ */
+async function* arrowBatches(
+  method: string,
+  source: Connection | Database,
+  text: string,
+  values: readonly unknown[],
+  options: ToStreamOptions
+): AsyncGenerator<Uint8Array, void, undefined> {
+  const watch = watchCancellation(method, options, () =>
+    source.interrupt_internal()
+  );
+  try {
+    const batches = await raceCancellation(
+      watch,
+      source.arrowIPCStream(text, ...values)
+    );
+    while (true) {
+      const { done, value } = await raceCancellation(watch, batches.next());
+      if (done) {
+        break;
+      }
+      yield value;
+    }
+  } catch (err) {
+    const redact = source.get_redact_params_internal();
+    throw toQueryError(err, queryContext(method, text, values, redact));
+  } finally {
+    watch?.dispose();
+  }
+  yield new Uint8Array([0, 0, 0, 0]);
+}
+
+/*
+ * Serialize the result of `query` in the requested format, one string or
+ * buffer per chunk of rows. The query's statement is finalized once the
+ * generator completes or is returned early.
+ */
+async function* serialize(
+  method: string,
+  source: Connection | Database,
+  query: string | SqlQuery,
+  options: ToStreamOptions
+): AsyncGenerator<string | Uint8Array, void, undefined> {
+  const [text, values] =
+    typeof query === "string" ? [query, []] : [query.text, query.values];
+  if (options.format === "arrow") {
+    yield* arrowBatches(method, source, text, values, options);
+    return;
+  }
+  const stmt = await source.prepare<unknown[], Record<string, unknown>>(text);
+  try {
+    const chunks = stmt.iterateChunks(...values, {
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+    });
+    if (options.format === "csv") {
+      const columns = (stmt.columns() ?? []).map((column) => column.name);
+      yield* csvLines(columns, chunks, options);
+    } else {
+      yield* ndjsonLines(chunks);
+    }
+  } finally {
+    await stmt.finalize();
+  }
+}
+
+/*
+ * Stream the result of `query` as a Node Readable. Errors raised while
+ * producing the result destroy the stream with that error, and destroying
+ * the stream early stops the query.
+ */
+export function toNodeStream(
+  method: string,
+  source: Connection | Database,
+  query: string | SqlQuery,
+  options: ToStreamOptions
+): Readable {
+  return Readable.from(serialize(method, source, query, options), {
+    objectMode: false,
+  });
+}
+
+/*
+ * Stream the result of `query` as a web ReadableStream of bytes. Errors
+ * raised while producing the result error the stream, and cancelling the
+ * stream stops the query.
+ */
+export function toWebStream(
+  method: string,
+  source: Connection | Database,
+  query: string | SqlQuery,
+  options: ToStreamOptions
+): ReadableStream<Uint8Array> {
+  const chunks = serialize(method, source, query, options);
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(
+          typeof value === "string" ? Buffer.from(value) : value
+        );
+      }
+    },
+    async cancel() {
+      await chunks.return();
+    },
+  });
+}
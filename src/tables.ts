@@ -0,0 +1,434 @@
+/**
+ * Registering JavaScript rows as temporary tables, so queries can join them
+ * with DuckDb tables.
+ */
+import { ArrowField, ArrowType, encodeArrowIPC } from "./arrow";
+import type { Connection, Database } from "./duckdb-async";
+import { DuckDbAsyncError } from "./errors";
+import { sql } from "./sql";
+
+/** Column names and their SQL types, in column order. */
+export type TableSchema = Record<string, string>;
+
+export interface RegisterTableOptions {
+  /**
+   * Column names and SQL types. By default the columns are inferred from
+   * the rows, or from the first `batchSize` rows of an iterable that is not
+   * an array; keys that first appear after those rows are ignored.
+   */
+  schema?: TableSchema;
+  /** Number of rows inserted by each INSERT statement. Defaults to 1000. */
+  batchSize?: number;
+}
+
+export type TableRows =
+  | Iterable<Record<string, unknown>>
+  | AsyncIterable<Record<string, unknown>>;
+
+/*
+ * The SQL type of a JavaScript value, or null for NULL values. Nested
+ * objects and arrays are stored as JSON.
+ */
+function valueType(
+  method: string,
+  column: string,
+  value: unknown
+): string | null {
+  switch (typeof value) {
+    case "undefined":
+      return null;
+    case "boolean":
+      return "BOOLEAN";
+    case "number":
+      if (!Number.isInteger(value) || !Number.isSafeInteger(value)) {
+        return "DOUBLE";
+      }
+      return value >= -(2 ** 31) && value < 2 ** 31 ? "INTEGER" : "BIGINT";
+    case "bigint":
+      return "HUGEINT";
+    case "string":
+      return "VARCHAR";
+    case "object":
+      if (value === null) {
+        return null;
+      }
+      if (value instanceof Date) {
+        return "TIMESTAMP";
+      }
+      return Buffer.isBuffer(value) ? "BLOB" : "JSON";
+    default:
+      throw new DuckDbAsyncError(
+        `${method}: unsupported ${typeof value} value in column "${column}"`,
+        method
+      );
+  }
+}
+
+// the inferred types of numbers, narrowest first
+const NUMERIC_TYPES = ["INTEGER", "BIGINT", "DOUBLE"];
+
+/**
+ * Infer the columns of a table from its rows: every key of any row is a
+ * column, in order of first appearance, typed by its non-NULL values.
+ * Integers are INTEGER, or BIGINT beyond 32 bits, and other numbers DOUBLE;
+ * numbers combine to the widest of these. Other combinations of types are
+ * rejected. Columns with only NULL values are VARCHAR.
+ */
+export function inferSchema(
+  method: string,
+  rows: readonly Record<string, unknown>[]
+): TableSchema {
+  const types = new Map<string, string | null>();
+  for (const row of rows) {
+    for (const [column, value] of Object.entries(row)) {
+      const type = valueType(method, column, value);
+      const previous = types.get(column) ?? null;
+      if (previous === null || type === null || previous === type) {
+        types.set(column, previous ?? type);
+      } else if (
+        NUMERIC_TYPES.includes(previous) &&
+        NUMERIC_TYPES.includes(type)
+      ) {
+        types.set(
+          column,
+          NUMERIC_TYPES[
+            Math.max(
+              NUMERIC_TYPES.indexOf(previous),
+              NUMERIC_TYPES.indexOf(type)
+            )
+          ]
+        );
+      } else {
+        throw new DuckDbAsyncError(
+          `${method}: column "${column}" has values of types ${previous} and ${type}; pass its type in the schema option`,
+          method
+        );
+      }
+    }
+  }
+  if (types.size === 0) {
+    throw new DuckDbAsyncError(
+      `${method}: can not infer the columns of a table without rows; pass the schema option`,
+      method
+    );
+  }
+  const schema: TableSchema = {};
+  for (const [column, type] of types) {
+    schema[column] = type ?? "VARCHAR";
+  }
+  return schema;
+}
+
+// words that continue a multi-word type name, e.g. DOUBLE PRECISION or
+// TIMESTAMP WITH TIME ZONE
+const TYPE_NAME_WORDS = new Set([
+  "PRECISION",
+  "VARYING",
+  "WITH",
+  "WITHOUT",
+  "TIME",
+  "ZONE",
+]);
+
+/*
+ * The tokens of a SQL type: names, quoted names, string literals, numbers
+ * and punctuation, or null if it contains anything else.
+ */
+function typeTokens(type: string): string[] | null {
+  const pattern =
+    /\s*([A-Za-z_][\w$]*|"(?:[^"]|"")*"|'(?:[^']|'')*'|[-+]?\d+(?:\.\d+)?|[(),.[\]])\s*/y;
+  const tokens: string[] = [];
+  while (pattern.lastIndex < type.length) {
+    const match = pattern.exec(type);
+    if (!match) {
+      return null;
+    }
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+/**
+ * Check that `type` is a SQL type, as it is pasted into the CREATE TABLE
+ * statement: a possibly qualified type name, with parenthesized arguments
+ * and array suffixes, e.g. `DECIMAL(18, 3)`, `STRUCT(a INTEGER, b
+ * VARCHAR[])` or `ENUM('a', 'b')`.
+ */
+export function checkColumnType(
+  method: string,
+  column: string,
+  type: string
+): void {
+  const tokens = typeTokens(type) ?? [];
+  let at = 0;
+  const isName = (token = "") => /^[A-Za-z_"]/.test(token);
+  const accept = (token: string) => tokens[at] === token && ++at > 0;
+  const name = () => isName(tokens[at]) && ++at > 0;
+  const argument = (): boolean => {
+    if (/^['\d+-]/.test(tokens[at] ?? "")) {
+      at++;
+      return true;
+    }
+    // a STRUCT or UNION member: a name followed by its type
+    if (isName(tokens[at]) && isName(tokens[at + 1])) {
+      at++;
+    }
+    return columnType();
+  };
+  const columnType = (): boolean => {
+    if (!name()) {
+      return false;
+    }
+    while (accept(".")) {
+      if (!name()) {
+        return false;
+      }
+    }
+    while (TYPE_NAME_WORDS.has(tokens[at]?.toUpperCase() ?? "")) {
+      at++;
+    }
+    if (accept("(")) {
+      do {
+        if (!argument()) {
+          return false;
+        }
+      } while (accept(","));
+      if (!accept(")")) {
+        return false;
+      }
+    }
+    while (accept("[")) {
+      if (/^\d+$/.test(tokens[at] ?? "")) {
+        at++;
+      }
+      if (!accept("]")) {
+        return false;
+      }
+    }
+    return true;
+  };
+  if (!columnType() || at !== tokens.length) {
+    throw new DuckDbAsyncError(
+      `${method}: invalid type ${JSON.stringify(type)} of column "${column}"`,
+      method
+    );
+  }
+}
+
+/*
+ * Read up to `size` rows of `rows`, returning them together with an
+ * iterable of all rows.
+ */
+async function sampleRows(
+  rows: TableRows,
+  size: number
+): Promise<[Record<string, unknown>[], TableRows]> {
+  if (Array.isArray(rows)) {
+    return [rows, rows];
+  }
+  const iterator =
+    Symbol.asyncIterator in rows
+      ? rows[Symbol.asyncIterator]()
+      : (rows as Iterable<Record<string, unknown>>)[Symbol.iterator]();
+  const sample: Record<string, unknown>[] = [];
+  while (sample.length < size) {
+    const next = await iterator.next();
+    if (next.done) {
+      return [sample, sample];
+    }
+    sample.push(next.value);
+  }
+  async function* all() {
+    yield* sample;
+    for (;;) {
+      const next = await iterator.next();
+      if (next.done) {
+        return;
+      }
+      yield next.value;
+    }
+  }
+  return [sample, all()];
+}
+
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
+/*
+ * The text of a value of a column that can not be encoded as a single
+ * Arrow type, which DuckDb casts to the type of the column. Nested objects
+ * and arrays are JSON.
+ */
+function textValue(value: unknown): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value !== "object") {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? String(value) : value.toISOString();
+  }
+  return JSON.stringify(value, (_key, v) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+}
+
+/*
+ * The Arrow type of the values of a column, chosen by their JavaScript
+ * type like the parameters bound by `insertMany()`, and the values to
+ * encode with it.
+ */
+function arrowColumn(values: readonly unknown[]): [ArrowType, unknown[]] {
+  const present = values.filter((v) => v !== null && v !== undefined);
+  const all = (test: (value: unknown) => boolean) =>
+    present.length > 0 && present.every(test);
+  if (all((v) => typeof v === "boolean")) {
+    return [{ id: "bool" }, [...values]];
+  }
+  if (
+    all(
+      (v) =>
+        Number.isSafeInteger(v) ||
+        (typeof v === "bigint" && v >= INT64_MIN && v <= INT64_MAX)
+    )
+  ) {
+    return [{ id: "int", bitWidth: 64, signed: true }, [...values]];
+  }
+  if (all((v) => typeof v === "number")) {
+    return [{ id: "float", bitWidth: 64 }, [...values]];
+  }
+  if (all((v) => v instanceof Date && !isNaN(v.getTime()))) {
+    return [{ id: "timestamp", timezone: null }, [...values]];
+  }
+  if (all((v) => Buffer.isBuffer(v))) {
+    return [{ id: "binary" }, [...values]];
+  }
+  return [{ id: "utf8" }, values.map(textValue)];
+}
+
+/*
+ * Whether `target` can scan Arrow IPC buffers, which needs DuckDb's `arrow`
+ * extension to be loaded.
+ */
+async function canScanArrow(target: Connection | Database): Promise<boolean> {
+  const [{ n }] = await target.all(
+    "SELECT count(*)::INTEGER AS n FROM duckdb_functions() WHERE function_name = 'scan_arrow_ipc'"
+  );
+  return n > 0;
+}
+
+// number of the Arrow buffers registered by insertArrow(), for unique names
+let arrowBuffers = 0;
+
+/*
+ * Insert `rows` into temporary table `name` in batches of `batchSize`
+ * rows, encoding each batch as Arrow IPC, registering it as a view, and
+ * inserting it with a single INSERT statement that casts its columns to
+ * those of the table.
+ */
+async function insertArrow(
+  target: Connection | Database,
+  name: string,
+  schema: TableSchema,
+  rows: TableRows,
+  batchSize: number
+): Promise<number> {
+  const view = `duckdb_async_arrow_${++arrowBuffers}`;
+  const columns = Object.entries(schema);
+  const select = columns.map(([column, type]) => {
+    const id = sql.identifier(column).text;
+    return `CAST(${id} AS ${type}) AS ${id}`;
+  });
+  const insert =
+    `INSERT INTO ${sql.identifier(["temp", "main", name]).text} ` +
+    `SELECT ${select.join(", ")} FROM ${view}`;
+  let count = 0;
+  let batch: Record<string, unknown>[] = [];
+  const flush = async () => {
+    const fields: ArrowField[] = [];
+    const values = batch.map((): Record<string, unknown> => ({}));
+    for (const [column] of columns) {
+      const [type, encoded] = arrowColumn(batch.map((row) => row[column]));
+      fields.push({ name: column, type });
+      encoded.forEach((value, i) => (values[i][column] = value));
+    }
+    await target.register_buffer(view, encodeArrowIPC(fields, values), true);
+    try {
+      await target.exec(insert);
+    } finally {
+      await target.unregister_buffer(view);
+    }
+    count += batch.length;
+    batch = [];
+  };
+  for await (const row of rows) {
+    batch.push(row);
+    if (batch.length >= batchSize) {
+      await flush();
+    }
+  }
+  if (batch.length > 0) {
+    await flush();
+  }
+  return count;
+}
+
+/*
+ * Create temporary table `name` with the rows of `rows`, replacing a
+ * temporary table of that name, and return the number of rows inserted.
+ * The rows are loaded through Arrow IPC buffers if DuckDb's `arrow`
+ * extension is loaded, and with `insertMany()` otherwise.
+ * `name` is added to the registered `tables` of `target` once the table is
+ * created, and removed again if inserting the rows fails.
+ */
+export async function registerTable(
+  method: string,
+  target: Connection | Database,
+  tables: Set<string>,
+  name: string,
+  rows: TableRows,
+  options: RegisterTableOptions = {}
+): Promise<number> {
+  const batchSize = options.batchSize ?? 1000;
+  let schema = options.schema;
+  if (!schema) {
+    const [sample, all] = await sampleRows(rows, batchSize);
+    schema = inferSchema(method, sample);
+    rows = all;
+  }
+  const columns = Object.entries(schema).map(([column, type]) => {
+    checkColumnType(method, column, type);
+    return `${sql.identifier(column).text} ${type}`;
+  });
+  if (columns.length === 0) {
+    throw new DuckDbAsyncError(`${method}: schema has no columns`, method);
+  }
+  const table = sql.identifier(name).text;
+  await target.exec(
+    `CREATE OR REPLACE TEMP TABLE ${table} (${columns.join(", ")})`
+  );
+  tables.add(name);
+  try {
+    return (await canScanArrow(target))
+      ? await insertArrow(target, name, schema, rows, batchSize)
+      : await target.insertMany(name, rows, {
+          columns: Object.keys(schema),
+          batchSize,
+        });
+  } catch (err) {
+    // the table this one replaced is gone as well
+    tables.delete(name);
+    await dropTable(target, name);
+    throw err;
+  }
+}
+
+export async function dropTable(
+  target: Connection | Database,
+  name: string
+): Promise<void> {
+  await target.exec(
+    `DROP TABLE IF EXISTS ${sql.identifier(["temp", "main", name]).text}`
+  );
+}
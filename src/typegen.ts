@@ -0,0 +1,248 @@
+/**
+ * Generation of TypeScript declarations for the rows of the tables and views
+ * of a database.
+ */
+import type { ColumnInfo, TypeInfo } from "duckdb";
+import type { Database } from "./duckdb-async";
+import type { TypeMapping } from "./conversion";
+import { sql } from "./sql";
+
+export interface GenerateTypesOptions {
+  /** Only generate interfaces for tables and views of this database. */
+  database?: string;
+  /** Only generate interfaces for tables and views of this schema. */
+  schema?: string;
+  /** Whether to generate interfaces for views. Defaults to true. */
+  views?: boolean;
+  /**
+   * The type mapping rows are returned with. Defaults to the mapping of
+   * the database.
+   */
+  types?: TypeMapping;
+}
+
+const NUMBER_TYPES = new Set([
+  "TINYINT",
+  "SMALLINT",
+  "INTEGER",
+  "UTINYINT",
+  "USMALLINT",
+  "UINTEGER",
+  "FLOAT",
+  "DOUBLE",
+]);
+
+const BIGINT_TYPES = new Set(["BIGINT", "UBIGINT", "HUGEINT", "UHUGEINT"]);
+
+function hasConverter(type: TypeInfo, mapping: TypeMapping): boolean {
+  const converters = mapping.converters ?? {};
+  return [type.alias, type.sql_type, type.id].some(
+    (name) =>
+      name !== undefined &&
+      Object.prototype.hasOwnProperty.call(converters, name)
+  );
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * The TypeScript type of non-NULL values of SQL type `type`, as returned by
+ * queries with the type mapping `mapping`. Values of types the DuckDb
+ * NodeJS API does not convert (such as MAP, UNION, ARRAY and TIME) are
+ * strings, and values converted by custom converters are `unknown`.
+ */
+export function typeScriptType(
+  type: TypeInfo,
+  mapping: TypeMapping | null = null
+): string {
+  const types = mapping ?? {};
+  if (hasConverter(type, types)) {
+    return "unknown";
+  }
+  if (NUMBER_TYPES.has(type.id)) {
+    return "number";
+  }
+  if (BIGINT_TYPES.has(type.id)) {
+    return types.bigint ?? "bigint";
+  }
+  if (type.id.startsWith("TIMESTAMP")) {
+    switch (types.timestamp) {
+      case "string":
+        return "string";
+      case "temporal":
+        return type.id === "TIMESTAMP WITH TIME ZONE"
+          ? "Temporal.Instant"
+          : "Temporal.PlainDateTime";
+      default:
+        return "Date";
+    }
+  }
+  switch (type.id) {
+    case "BOOLEAN":
+      return "boolean";
+    case "DECIMAL":
+      return types.decimal ?? "number";
+    case "DATE":
+      return "Date";
+    case "BLOB":
+      return "Buffer";
+    case "INTERVAL":
+      return "{ months: number; days: number; micros: number }";
+    case "ENUM":
+      return "values" in type
+        ? type.values.map((value) => JSON.stringify(value)).join(" | ")
+        : "string";
+    case "LIST":
+      return "child" in type
+        ? `Array<${typeScriptType(type.child, mapping)} | null>`
+        : "unknown[]";
+    case "STRUCT":
+      if ("children" in type) {
+        const fields = type.children.map(
+          ({ name, type: field }) =>
+            `${propertyName(name)}: ${typeScriptType(field, mapping)} | null`
+        );
+        return `{ ${fields.join("; ")} }`;
+      }
+      return "Record<string, unknown>";
+    case "SQLNULL":
+      return "null";
+    default:
+      return "string";
+  }
+}
+
+interface QualifiedName {
+  database: string;
+  schema: string;
+  name: string;
+}
+
+/*
+ * The parts of the qualified name of a table or view that set it apart:
+ * the database only outside of the default database, the schema only
+ * outside of `main`.
+ */
+function nameParts(
+  { database, schema, name }: QualifiedName,
+  defaultDatabase: string
+): string[] {
+  return [
+    ...(database === defaultDatabase ? [] : [database]),
+    ...(schema === "main" ? [] : [schema]),
+    name,
+  ];
+}
+
+// qualified name of a table or view, with its database if not the default
+function description(table: QualifiedName, defaultDatabase: string): string {
+  const { database, schema, name } = table;
+  return (database === defaultDatabase ? [] : [database])
+    .concat(schema, name)
+    .join(".");
+}
+
+/*
+ * PascalCase name of the interface for the rows of a table or view, made
+ * unique among the names already in `used` by a numeric suffix.
+ */
+function interfaceName(parts: string[], used: Set<string>): string {
+  const words = parts
+    .join("_")
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word !== "");
+  let pascal = words
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  if (/^[0-9]/.test(pascal) || pascal === "") {
+    pascal = `_${pascal}`;
+  }
+  let unique = pascal;
+  for (let i = 2; used.has(unique); i++) {
+    unique = `${pascal}${i}`;
+  }
+  used.add(unique);
+  return unique;
+}
+
+function interfaceSource(
+  description: string,
+  name: string,
+  columns: (ColumnInfo & { nullable: boolean })[],
+  mapping: TypeMapping | null
+): string {
+  const lines = [`/** ${description} */`, `export interface ${name} {`];
+  for (const column of columns) {
+    const type = typeScriptType(column.type, mapping);
+    lines.push(
+      `  ${propertyName(column.name)}: ${type}${
+        column.nullable ? " | null" : ""
+      }; // ${column.type.sql_type}`
+    );
+  }
+  lines.push("}");
+  return lines.join("\n");
+}
+
+/**
+ * Generate TypeScript interfaces for the rows of the tables and views of
+ * `db`, named after them in PascalCase (prefixed with their schema outside
+ * of `main`, and with their database outside of the default database), for
+ * use as the row type of `all()` and `prepare()`. Names that would still
+ * clash get a numeric suffix.
+ * @returns `Promise` that resolves to the source of a `.d.ts` module
+ */
+export async function generateTypes(
+  db: Database,
+  options: GenerateTypesOptions = {}
+): Promise<string> {
+  const mapping = options.types ?? db.get_type_mapping_internal();
+  const filter = { database: options.database, schema: options.schema };
+  const [{ name: defaultDatabase }] = await db.all<{ name: string }>(
+    "SELECT current_database() AS name"
+  );
+  const used = new Set<string>();
+  const declarations: string[] = [];
+  for (const table of await db.schema.listTables(filter)) {
+    const parts = nameParts(table, defaultDatabase);
+    const { columns } = await db.schema.describeTable([
+      table.database,
+      table.schema,
+      table.name,
+    ]);
+    declarations.push(
+      interfaceSource(
+        `A row of table ${description(table, defaultDatabase)}.`,
+        interfaceName(parts, used),
+        columns,
+        mapping
+      )
+    );
+  }
+  if (options.views ?? true) {
+    for (const view of await db.schema.listViews(filter)) {
+      const parts = nameParts(view, defaultDatabase);
+      const { columns } = await db.allWithMetadata(
+        sql`SELECT * FROM ${sql.identifier([
+          view.database,
+          view.schema,
+          view.name,
+        ])} LIMIT 0`
+      );
+      declarations.push(
+        interfaceSource(
+          `A row of view ${description(view, defaultDatabase)}.`,
+          interfaceName(parts, used),
+          columns.map((column) => ({ ...column, nullable: true })),
+          mapping
+        )
+      );
+    }
+  }
+  return (
+    "// Generated from the schema of a DuckDb database; do not edit.\n\n" +
+    declarations.map((declaration) => `${declaration}\n`).join("\n")
+  );
+}
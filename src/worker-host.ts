@@ -0,0 +1,322 @@
+/**
+ * The worker thread side of databases opened with `mode: "worker"`: hosts
+ * the native database and runs the calls posted by its stand-ins in
+ * `worker.ts`. The worker thread is started from this module's file,
+ * `worker-host.js`, or `worker-host.ts` when running from the sources.
+ */
+import * as duckdb from "duckdb";
+import {
+  isMainThread,
+  MessagePort,
+  parentPort,
+  workerData,
+} from "worker_threads";
+import { arrowField, encodeArrowIPC } from "./arrow";
+
+/** A request posted to the worker thread. */
+export interface WorkerRequest {
+  id: number;
+  /**
+   * Handle of the database (0), connection, statement or query result to
+   * run `op` on.
+   */
+  handle: number;
+  op: string;
+  args: unknown[];
+}
+
+/**
+ * An error raised in the worker thread, with the properties `toQueryError()`
+ * needs to classify errors reported by DuckDb.
+ */
+export interface SerializedError {
+  message: string;
+  code?: string;
+  errno?: number;
+  errorType?: string;
+}
+
+/** The response to the request with the same `id`. */
+export interface WorkerResponse {
+  id: number;
+  result?: unknown;
+  error?: SerializedError;
+}
+
+/** Rows, as the messages of an Arrow IPC stream. */
+export interface RowsMessage {
+  buffers: Uint8Array[];
+}
+
+/** The result of the `prepare` operation. */
+export interface PreparedMessage {
+  handle: number;
+  columns: duckdb.ColumnInfo[] | null;
+}
+
+/*
+ * A query result streamed chunk by chunk, or an Arrow IPC stream, and the
+ * statement it belongs to.
+ */
+interface ResultEntry {
+  statement: number | null;
+  result: any;
+  columns: duckdb.ColumnInfo[] | null;
+}
+
+// operations that call the DuckDb NodeJS API method of the same name with
+// the request's arguments and a callback, and return nothing
+const VOID_OPS = new Set([
+  "exec",
+  "register_buffer",
+  "unregister_buffer",
+  "unregister_udf",
+  "wait",
+  "serialize",
+  "parallelize",
+]);
+
+/*
+ * The worker thread's entry point: opens the database described by
+ * `workerData` and answers the requests posted to `port`.
+ */
+function workerMain(port: MessagePort): void {
+  // the database is handle 0
+  const handles = new Map<number, any>();
+  const results = new Map<number, ResultEntry>();
+  let nextHandle = 1;
+
+  const invoke = (target: any, method: string, args: unknown[]) =>
+    new Promise<any>((resolve, reject) => {
+      target[method](...args, (err: unknown, res: unknown) =>
+        err ? reject(err) : resolve(res)
+      );
+    });
+
+  // BLOB parameters arrive as plain Uint8Arrays, which DuckDb does not bind
+  const params = (values: unknown[]) =>
+    values.map((value) =>
+      value instanceof Uint8Array && !Buffer.isBuffer(value)
+        ? Buffer.from(value.buffer, value.byteOffset, value.byteLength)
+        : value
+    );
+
+  const serializeError = (err: any): SerializedError =>
+    typeof err?.message === "string"
+      ? {
+          message: err.message,
+          code: err.code,
+          errno: err.errno,
+          errorType: err.errorType,
+        }
+      : { message: String(err) };
+
+  // rows as a message whose buffers are transferred rather than copied
+  const rowsMessage = (
+    columns: duckdb.ColumnInfo[] | null,
+    rows: duckdb.RowData[]
+  ): [RowsMessage, ArrayBuffer[]] => {
+    const fields = (columns ?? []).map((c) => arrowField(c.name, c.type));
+    const buffers = encodeArrowIPC(fields, rows);
+    return [{ buffers }, buffers.map((buffer) => buffer.buffer)];
+  };
+
+  // connections, statements and query results share the handle numbers
+  const addHandle = (value: unknown) => {
+    handles.set(nextHandle, value);
+    return nextHandle++;
+  };
+
+  async function withStatement<R>(
+    target: any,
+    sql: string,
+    fn: (stmt: duckdb.Statement) => Promise<R>
+  ): Promise<R> {
+    const stmt = await invoke(target, "prepare", [sql]);
+    try {
+      return await fn(stmt);
+    } finally {
+      await invoke(stmt, "finalize", []);
+    }
+  }
+
+  // returns the result and the buffers to transfer rather than copy
+  async function run(
+    target: any,
+    handle: number,
+    op: string,
+    args: any[]
+  ): Promise<[unknown, ArrayBuffer[]]> {
+    if (VOID_OPS.has(op)) {
+      await invoke(target, op, op === "exec" ? args : params(args));
+      return [undefined, []];
+    }
+    switch (op) {
+      case "connect": {
+        const conn = await new Promise((resolve, reject) => {
+          const created: duckdb.Connection = new duckdb.Connection(
+            target,
+            (err: unknown) => (err ? reject(err) : resolve(created))
+          );
+        });
+        return [addHandle(conn), []];
+      }
+      case "all": {
+        const [sql, values] = args;
+        return withStatement(target, sql, async (stmt) =>
+          rowsMessage(
+            stmt.columns(),
+            await invoke(stmt, "all", params(values))
+          )
+        );
+      }
+      case "arrowIPCAll": {
+        const [sql, values] = args;
+        const buffers: Uint8Array[] = await invoke(target, "arrowIPCAll", [
+          sql,
+          ...params(values),
+        ]);
+        // copies, as buffers owned by DuckDb can not be transferred
+        const copies = buffers.map((buffer) => new Uint8Array(buffer));
+        return [copies, copies.map((copy) => copy.buffer)];
+      }
+      case "run": {
+        const [sql, values] = args;
+        await invoke(target, "run", [sql, ...params(values)]);
+        return [undefined, []];
+      }
+      case "prepare": {
+        const stmt = await invoke(target, "prepare", [args[0]]);
+        const prepared: PreparedMessage = {
+          handle: addHandle(stmt),
+          columns: stmt.columns(),
+        };
+        return [prepared, []];
+      }
+      case "arrowIPCStream": {
+        const [sql, values] = args;
+        const stream = await target.arrowIPCStream(sql, ...params(values));
+        results.set(nextHandle, {
+          statement: null,
+          result: stream,
+          columns: null,
+        });
+        return [nextHandle++, []];
+      }
+      case "statementAll":
+        return rowsMessage(
+          target.columns(),
+          await invoke(target, "all", params(args))
+        );
+      case "statementArrowIPCAll": {
+        const buffers: Uint8Array[] = await invoke(
+          target,
+          "arrowIPCAll",
+          params(args)
+        );
+        const copies = buffers.map((buffer) => new Uint8Array(buffer));
+        return [copies, copies.map((copy) => copy.buffer)];
+      }
+      case "statementRun":
+        await invoke(target, "run", params(args));
+        return [undefined, []];
+      case "stream": {
+        const stream = await target.stream(...params(args));
+        results.set(nextHandle, {
+          statement: handle,
+          result: stream,
+          columns: target.columns(),
+        });
+        return [nextHandle++, []];
+      }
+      case "interrupt":
+        target.interrupt();
+        return [undefined, []];
+      case "finalize":
+      case "close":
+        await invoke(target, op, []);
+        handles.delete(handle);
+        for (const [result, entry] of results) {
+          if (entry.statement === handle) {
+            results.delete(result);
+          }
+        }
+        return [undefined, []];
+      default:
+        throw new Error(`unknown operation ${op}`);
+    }
+  }
+
+  // the operations on query results; exhausted results are released
+  async function next(
+    handle: number,
+    entry: ResultEntry,
+    op: string
+  ): Promise<[unknown, ArrayBuffer[]]> {
+    switch (op) {
+      case "nextChunk": {
+        const chunk: duckdb.RowData[] | null = await entry.result.nextChunk();
+        if (!chunk) {
+          results.delete(handle);
+          return [null, []];
+        }
+        return rowsMessage(entry.columns, chunk);
+      }
+      case "nextIpcBuffer": {
+        const { done, value } = await entry.result.next();
+        if (done) {
+          results.delete(handle);
+          return [null, []];
+        }
+        const copy = new Uint8Array(value);
+        return [copy, [copy.buffer]];
+      }
+      case "close":
+        results.delete(handle);
+        return [undefined, []];
+      default:
+        throw new Error(`unknown operation ${op}`);
+    }
+  }
+
+  port.on("message", (request: WorkerRequest) => {
+    const respond = (response: WorkerResponse, transfer?: ArrayBuffer[]) => {
+      try {
+        port.postMessage(response, transfer);
+      } catch (err) {
+        // e.g. a result that can not be cloned
+        port.postMessage({ id: request.id, error: serializeError(err) });
+      }
+    };
+    const entry = results.get(request.handle);
+    const target = handles.get(request.handle);
+    if (entry === undefined && target === undefined) {
+      respond({ id: request.id, error: { message: "handle is closed" } });
+      return;
+    }
+    (entry
+      ? next(request.handle, entry, request.op)
+      : run(target, request.handle, request.op, request.args)
+    ).then(
+      ([result, transfer]) => respond({ id: request.id, result }, transfer),
+      (err) => respond({ id: request.id, error: serializeError(err) })
+    );
+  });
+
+  const db = new duckdb.Database(
+    workerData.path,
+    workerData.config,
+    (err: unknown) => {
+      if (err) {
+        port.postMessage({ id: 0, error: serializeError(err) });
+        return;
+      }
+      handles.set(0, db);
+      port.postMessage({ id: 0 });
+    }
+  );
+}
+
+if (!isMainThread && parentPort) {
+  workerMain(parentPort);
+}
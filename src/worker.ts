@@ -0,0 +1,546 @@
+/**
+ * Databases hosted in a worker thread, opened with
+ * `Database.create(path, { mode: "worker" })`, so queries and the
+ * materialization of their results do not block the main thread.
+ *
+ * The `Database`, `Connection` and `Statement` classes wrap stand-ins for
+ * the objects of the DuckDb NodeJS API, which post each call to the worker
+ * thread and receive rows as Arrow IPC buffers, transferred rather than
+ * copied.
+ */
+import * as duckdb from "duckdb";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import { decodeArrowIPC } from "./arrow";
+import { DuckDbAsyncError } from "./errors";
+import type {
+  PreparedMessage,
+  RowsMessage,
+  SerializedError,
+  WorkerRequest,
+  WorkerResponse,
+} from "./worker-host";
+
+type Callback = (err: unknown, result?: unknown) => void;
+
+interface PendingCall {
+  resolve: (result: any) => void;
+  reject: (err: unknown) => void;
+}
+
+/*
+ * Start the worker thread from worker-host next to this module. When this
+ * module runs from the TypeScript sources, as in the tests, the worker
+ * thread compiles the sources it loads with the `typescript` package, so
+ * no build is needed.
+ */
+function startWorker(workerData: unknown): Worker {
+  const script = path.join(
+    __dirname,
+    `worker-host${path.extname(__filename)}`
+  );
+  if (!script.endsWith(".ts")) {
+    return new Worker(script, { workerData });
+  }
+  const typescript = JSON.stringify(require.resolve("typescript"));
+  const bootstrap = `
+    const fs = require("fs");
+    const ts = require(${typescript});
+    require.extensions[".ts"] = (module, filename) => {
+      const source = fs.readFileSync(filename, "utf8");
+      const { outputText } = ts.transpileModule(source, {
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2020,
+          esModuleInterop: true,
+        },
+        fileName: filename,
+      });
+      module._compile(outputText, filename);
+    };
+    require(${JSON.stringify(script)});
+  `;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
+
+function deserializeError(error: SerializedError): Error {
+  // keeps the code and errorType toQueryError() classifies errors by
+  return Object.assign(new Error(error.message), error);
+}
+
+const decodeRows = (message: RowsMessage) =>
+  decodeArrowIPC(message.buffers) as duckdb.RowData[];
+
+/*
+ * Split the trailing callback off the arguments of a call of the DuckDb
+ * NodeJS API.
+ */
+function splitCallback(args: unknown[]): [unknown[], Callback | undefined] {
+  const last = args[args.length - 1];
+  return typeof last === "function"
+    ? [args.slice(0, -1), last as Callback]
+    : [args, undefined];
+}
+
+/*
+ * Split the row callback and the optional completion callback off the
+ * arguments of `each()`.
+ */
+function splitEachCallbacks(
+  args: unknown[]
+): [unknown[], Callback | undefined, Callback | undefined] {
+  const [rest, last] = splitCallback(args);
+  const [params, row] = splitCallback(rest);
+  return row ? [params, row, last] : [rest, last, undefined];
+}
+
+/*
+ * Pass the outcome of `promise` to `callback`, with `self` as `this`, like
+ * the DuckDb NodeJS API calls its callbacks.
+ */
+function settle(
+  self: unknown,
+  promise: Promise<unknown>,
+  callback: Callback | undefined
+): void {
+  promise.then(
+    (result) => callback?.call(self, null, result),
+    (err) => callback?.call(self, err)
+  );
+}
+
+// JavaScript functions can not be passed to the worker thread
+function unsupported(what: string): never {
+  throw new DuckDbAsyncError(
+    `Database: ${what} are not supported in worker mode`,
+    "Database"
+  );
+}
+
+/*
+ * Posts requests to the worker thread and settles them with its responses.
+ * Request 0 is the opening of the database.
+ */
+class WorkerChannel {
+  private pending = new Map<number, PendingCall>();
+  private nextId = 1;
+  private failure: Error | null = null;
+
+  constructor(private worker: Worker) {
+    worker.on("message", (response: WorkerResponse) => {
+      const call = this.pending.get(response.id);
+      this.pending.delete(response.id);
+      if (response.error) {
+        call?.reject(deserializeError(response.error));
+      } else {
+        call?.resolve(response.result);
+      }
+    });
+    worker.on("error", (err) => this.fail(err));
+    worker.on("exit", (code) =>
+      this.fail(
+        new DuckDbAsyncError(
+          `Database: worker thread exited with code ${code}`,
+          "Database"
+        )
+      )
+    );
+  }
+
+  opened(): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.pending.set(0, { resolve, reject })
+    );
+  }
+
+  call(handle: number, op: string, args: unknown[]): Promise<any> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      const request: WorkerRequest = { id, handle, op, args };
+      try {
+        // fails for values that can not be cloned, such as functions
+        this.worker.postMessage(request);
+      } catch (err) {
+        this.pending.delete(id);
+        reject(err);
+      }
+    });
+  }
+
+  async terminate(): Promise<void> {
+    await this.worker.terminate();
+  }
+
+  private fail(err: Error): void {
+    this.failure ??= err;
+    for (const call of this.pending.values()) {
+      call.reject(err);
+    }
+    this.pending.clear();
+  }
+}
+
+/*
+ * The stand-in for a `duckdb.QueryResult`, streamed chunk by chunk.
+ */
+class WorkerQueryResult {
+  private done = false;
+
+  constructor(private channel: WorkerChannel, private handle: number) {}
+
+  async nextChunk(): Promise<duckdb.RowData[] | null> {
+    if (this.done) {
+      return null;
+    }
+    const message: RowsMessage | null = await this.channel.call(
+      this.handle,
+      "nextChunk",
+      []
+    );
+    this.done = message === null;
+    return message && decodeRows(message);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<
+    duckdb.RowData,
+    void,
+    undefined
+  > {
+    for (;;) {
+      const chunk = await this.nextChunk();
+      if (!chunk) {
+        return;
+      }
+      yield* chunk;
+    }
+  }
+}
+
+/*
+ * The stand-in for a `duckdb.IpcResultStreamIterator`.
+ */
+class WorkerIpcStream {
+  private done = false;
+
+  constructor(private channel: WorkerChannel, private handle: number) {}
+
+  async next(): Promise<IteratorResult<Uint8Array, null>> {
+    if (!this.done) {
+      const value: Uint8Array | null = await this.channel.call(
+        this.handle,
+        "nextIpcBuffer",
+        []
+      );
+      this.done = value === null;
+      if (value) {
+        return { done: false, value };
+      }
+    }
+    return { done: true, value: null };
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  async toArray(): Promise<Uint8Array[]> {
+    const buffers: Uint8Array[] = [];
+    for await (const buffer of this) {
+      buffers.push(buffer);
+    }
+    buffers.push(new Uint8Array([0, 0, 0, 0]));
+    return buffers;
+  }
+}
+
+/*
+ * The stand-in for a `duckdb.Statement`. It is returned before the
+ * statement is prepared on the worker thread, like the statements of the
+ * DuckDb NodeJS API, and its calls wait for the preparation.
+ */
+class WorkerStatement {
+  private columnInfo: duckdb.ColumnInfo[] | null = null;
+
+  constructor(
+    private channel: WorkerChannel,
+    readonly sql: string,
+    private prepared: Promise<PreparedMessage>
+  ) {
+    prepared.then(
+      ({ columns }) => (this.columnInfo = columns),
+      // reported by the calls that wait for the preparation
+      () => undefined
+    );
+  }
+
+  private call(op: string, args: unknown[]): Promise<any> {
+    return this.prepared.then(({ handle }) =>
+      this.channel.call(handle, op, args)
+    );
+  }
+
+  columns(): duckdb.ColumnInfo[] | null {
+    return this.columnInfo;
+  }
+
+  all(...args: unknown[]): this {
+    const [params, callback] = splitCallback(args);
+    settle(this, this.call("statementAll", params).then(decodeRows), callback);
+    return this;
+  }
+
+  arrowIPCAll(...args: unknown[]): this {
+    const [params, callback] = splitCallback(args);
+    settle(this, this.call("statementArrowIPCAll", params), callback);
+    return this;
+  }
+
+  run(...args: unknown[]): this {
+    const [params, callback] = splitCallback(args);
+    settle(this, this.call("statementRun", params), callback);
+    return this;
+  }
+
+  // calls the row callback for each row, or with an error, and then the
+  // optional completion callback with the number of rows
+  each(...args: unknown[]): this {
+    const [params, row, complete] = splitEachCallbacks(args);
+    const rows = async () => {
+      const result = await this.stream(...params);
+      let count = 0;
+      for await (const value of result) {
+        count++;
+        row?.call(this, null, value);
+      }
+      return count;
+    };
+    rows().then(
+      (count) => complete?.call(this, null, count),
+      (err) => row?.call(this, err)
+    );
+    return this;
+  }
+
+  async stream(...params: unknown[]): Promise<WorkerQueryResult> {
+    const handle: number = await this.call("stream", params);
+    return new WorkerQueryResult(this.channel, handle);
+  }
+
+  finalize(callback?: Callback): void {
+    settle(this, this.call("finalize", []), callback);
+  }
+}
+
+/*
+ * The stand-in for a `duckdb.Connection`, or for the default connection of
+ * a `duckdb.Database`.
+ */
+class WorkerConnection {
+  constructor(
+    protected channel: WorkerChannel,
+    private handle: Promise<number>
+  ) {
+    // reported by the calls that wait for the connection
+    handle.catch(() => undefined);
+  }
+
+  protected call(op: string, args: unknown[]): Promise<any> {
+    return this.handle.then((handle) => this.channel.call(handle, op, args));
+  }
+
+  all(sql: string, ...args: unknown[]): this {
+    const [params, callback] = splitCallback(args);
+    settle(this, this.call("all", [sql, params]).then(decodeRows), callback);
+    return this;
+  }
+
+  arrowIPCAll(sql: string, ...args: unknown[]): this {
+    const [params, callback] = splitCallback(args);
+    settle(this, this.call("arrowIPCAll", [sql, params]), callback);
+    return this;
+  }
+
+  async arrowIPCStream(
+    sql: string,
+    ...params: unknown[]
+  ): Promise<WorkerIpcStream> {
+    const handle: number = await this.call("arrowIPCStream", [sql, params]);
+    return new WorkerIpcStream(this.channel, handle);
+  }
+
+  exec(sql: string, callback?: Callback): this {
+    settle(this, this.call("exec", [sql]), callback);
+    return this;
+  }
+
+  /*
+   * Without a callback, as from `runSync()`, the statement is kept and
+   * returned; with a callback it is finalized once it has run.
+   */
+  run(sql: string, ...args: unknown[]): WorkerStatement | this {
+    const [params, callback] = splitCallback(args);
+    if (callback) {
+      settle(this, this.call("run", [sql, params]), callback);
+      return this;
+    }
+    return this.prepare(sql).run(...params);
+  }
+
+  each(sql: string, ...args: unknown[]): this {
+    const stmt = this.prepare(sql);
+    const [params, row, complete] = splitEachCallbacks(args);
+    const finalize = (err: unknown, count?: unknown) =>
+      stmt.finalize(() =>
+        err ? row?.call(this, err) : complete?.call(this, null, count)
+      );
+    stmt.each(
+      ...params,
+      (err: unknown, value: unknown) =>
+        err ? finalize(err) : row?.call(this, null, value),
+      (_err: unknown, count: unknown) => finalize(null, count)
+    );
+    return this;
+  }
+
+  async *stream(
+    sql: string,
+    ...params: unknown[]
+  ): AsyncGenerator<duckdb.RowData, void, undefined> {
+    const stmt = this.prepare(sql);
+    try {
+      yield* await stmt.stream(...params);
+    } finally {
+      stmt.finalize();
+    }
+  }
+
+  prepare(sql: string, ...args: unknown[]): WorkerStatement {
+    const [, callback] = splitCallback(args);
+    const prepared = this.call("prepare", [sql]);
+    const stmt = new WorkerStatement(this.channel, sql, prepared);
+    settle(stmt, prepared.then(() => stmt), callback);
+    return stmt;
+  }
+
+  register_buffer(
+    name: string,
+    array: Uint8Array[],
+    force: boolean,
+    callback?: Callback
+  ): void {
+    settle(
+      this,
+      this.call("register_buffer", [name, [...array], force]),
+      callback
+    );
+  }
+
+  unregister_buffer(name: string, callback?: Callback): void {
+    settle(this, this.call("unregister_buffer", [name]), callback);
+  }
+
+  register_udf(): never {
+    unsupported("user defined functions");
+  }
+
+  register_bulk(): never {
+    unsupported("user defined functions");
+  }
+
+  unregister_udf(name: string, callback?: Callback): void {
+    settle(this, this.call("unregister_udf", [name]), callback);
+  }
+
+  close(callback?: Callback): void {
+    settle(this, this.call("close", []), callback);
+  }
+}
+
+/*
+ * The stand-in for a `duckdb.Database`, handle 0 of its worker thread.
+ */
+class WorkerDatabase extends WorkerConnection {
+  constructor(channel: WorkerChannel) {
+    super(channel, Promise.resolve(0));
+  }
+
+  connect_internal(callback: Callback): WorkerConnection {
+    const handle = this.channel.call(0, "connect", []);
+    const conn = new WorkerConnection(this.channel, handle);
+    settle(conn, handle, callback);
+    return conn;
+  }
+
+  run(sql: string, ...args: unknown[]): this {
+    // like duckdb.Database.run(), which does not return the statement
+    const [params, callback] = splitCallback(args);
+    settle(this, this.call("run", [sql, params]), callback);
+    return this;
+  }
+
+  interrupt(): void {
+    this.call("interrupt", []).catch(() => undefined);
+  }
+
+  wait(callback?: Callback): void {
+    settle(this, this.call("wait", []), callback);
+  }
+
+  serialize(callback?: Callback): void {
+    settle(this, this.call("serialize", []), callback);
+  }
+
+  parallelize(callback?: Callback): void {
+    settle(this, this.call("parallelize", []), callback);
+  }
+
+  registerReplacementScan(): never {
+    unsupported("replacement scans");
+  }
+
+  close(callback?: Callback): void {
+    const closed = this.call("close", []).finally(() =>
+      this.channel.terminate()
+    );
+    settle(this, closed, callback);
+  }
+}
+
+/**
+ * Open the database at `path` in a worker thread, returning a stand-in for
+ * the native `duckdb.Database`; `callback` is called once it is open.
+ * This is intended for internal use only.
+ */
+export function openWorkerDatabase(
+  path: string,
+  config: Record<string, string>,
+  callback: (err: unknown) => void
+): duckdb.Database {
+  const channel = new WorkerChannel(startWorker({ path, config }));
+  channel.opened().then(
+    () => callback(null),
+    async (err) => {
+      await channel.terminate();
+      callback(err);
+    }
+  );
+  return new WorkerDatabase(channel) as unknown as duckdb.Database;
+}
+
+/**
+ * Open a connection to `db`, which may be hosted in a worker thread.
+ * This is intended for internal use only.
+ */
+export function openConnection(
+  db: duckdb.Database,
+  callback: (err: unknown) => void
+): duckdb.Connection {
+  if (db instanceof WorkerDatabase) {
+    return db.connect_internal(callback) as unknown as duckdb.Connection;
+  }
+  return new duckdb.Connection(db, callback);
+}
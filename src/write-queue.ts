@@ -0,0 +1,200 @@
+/**
+ * Serialization of the writes to a database through a single connection.
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import type { Connection, Database } from "./duckdb-async";
+
+// first keywords of statements that modify data or the schema; COPY only
+// modifies the database when copying FROM a file or database
+const WRITE_KEYWORDS = new Set([
+  "ALTER",
+  "CHECKPOINT",
+  "COMMENT",
+  "CREATE",
+  "DELETE",
+  "DROP",
+  "IMPORT",
+  "INSERT",
+  "MERGE",
+  "TRUNCATE",
+  "UPDATE",
+  "VACUUM",
+]);
+
+// keywords that make a WITH statement a write rather than a query
+const CTE_WRITE_KEYWORDS = new Set(["DELETE", "INSERT", "UPDATE"]);
+
+// first keywords of statements that only affect the connection running them
+const SESSION_KEYWORDS = new Set([
+  "ABORT",
+  "BEGIN",
+  "COMMIT",
+  "END",
+  "RESET",
+  "ROLLBACK",
+  "SET",
+  "START",
+  "USE",
+]);
+
+const word = /[A-Za-z_][A-Za-z0-9_]*/y;
+const dollarQuote = /\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/y;
+
+/*
+ * Skip the dollar-quoted string or bare word at `i` of `sql`, adding the
+ * word to `words`, and return the index after it.
+ */
+function scanWord(sql: string, i: number, words: string[]): number {
+  dollarQuote.lastIndex = i;
+  const quote = dollarQuote.exec(sql);
+  if (quote) {
+    const end = sql.indexOf(quote[0], dollarQuote.lastIndex);
+    return end < 0 ? sql.length : end + quote[0].length;
+  }
+  word.lastIndex = i;
+  const match = word.exec(sql);
+  if (match) {
+    words.push(match[0].toUpperCase());
+    return word.lastIndex;
+  }
+  return i + 1;
+}
+
+/*
+ * The keywords (and other bare words) and opening parentheses of each
+ * statement in `sql`, upper cased, skipping string literals, quoted
+ * identifiers and comments.
+ */
+function statementWords(sql: string): string[][] {
+  const statements: string[][] = [[]];
+  let i = 0;
+  while (i < sql.length) {
+    const c = sql[i];
+    if (c === "-" && sql[i + 1] === "-") {
+      const end = sql.indexOf("\n", i);
+      i = end < 0 ? sql.length : end + 1;
+    } else if (c === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end < 0 ? sql.length : end + 2;
+    } else if (c === "'" || c === '"') {
+      const end = sql.indexOf(c, i + 1);
+      i = end < 0 ? sql.length : end + 1;
+    } else if (c === ";") {
+      statements.push([]);
+      i++;
+    } else if (c === "(") {
+      // kept, to tell COPY (query) TO from COPY table FROM
+      statements[statements.length - 1].push(c);
+      i++;
+    } else {
+      i = scanWord(sql, i, statements[statements.length - 1]);
+    }
+  }
+  return statements.filter((words) => words.length > 0);
+}
+
+/*
+ * Whether the words following COPY copy into the database: `COPY t FROM`
+ * and `COPY FROM DATABASE` do, while `COPY t TO` and `COPY (query) TO` only
+ * read it.
+ */
+function isCopyFrom(rest: string[]): boolean {
+  if (rest[0] === "(") {
+    return false;
+  }
+  const direction = rest.find((w) => w === "FROM" || w === "TO");
+  return direction === "FROM";
+}
+
+/**
+ * Whether `sql` contains a statement that modifies data or the schema, such
+ * as INSERT, UPDATE, CREATE or COPY ... FROM. Statements that only affect
+ * the session, like SET, USE or BEGIN, are not writes, and neither is
+ * COPY ... TO.
+ */
+export function isWriteStatement(sql: string): boolean {
+  return statementWords(sql).some(
+    ([first, ...rest]) =>
+      WRITE_KEYWORDS.has(first) ||
+      (first === "COPY" && isCopyFrom(rest)) ||
+      (first === "WITH" && rest.some((w) => CTE_WRITE_KEYWORDS.has(w)))
+  );
+}
+
+/**
+ * Whether `sql` contains a statement that only affects the connection
+ * running it: transaction control (BEGIN, COMMIT, ROLLBACK, ...), SET and
+ * RESET other than of GLOBAL settings, USE, and the creation of temporary
+ * objects.
+ */
+export function isSessionStatement(sql: string): boolean {
+  return statementWords(sql).some(([first, ...rest]) => {
+    if (first === "CREATE") {
+      const kind = rest[0] === "OR" ? rest[2] : rest[0];
+      return kind === "TEMP" || kind === "TEMPORARY";
+    }
+    if (first === "SET" || first === "RESET") {
+      return rest[0] !== "GLOBAL";
+    }
+    return SESSION_KEYWORDS.has(first);
+  });
+}
+
+/**
+ * Runs the writes of a `Database` one at a time, in the order they were
+ * queued, on a dedicated connection, so they can not conflict with each
+ * other while reads run concurrently on other connections.
+ */
+export class WriteQueue {
+  private conn: Connection | null = null;
+  // settles when the last queued write has finished
+  private tail: Promise<unknown> = Promise.resolve();
+  // the write connection, within the write that is running
+  private running = new AsyncLocalStorage<Connection>();
+
+  private constructor(private db: Database) {}
+
+  /**
+   * create the WriteQueue of a Database.
+   * This is intended for internal use only, and should not be called directly.
+   */
+  static create_internal(db: Database): WriteQueue {
+    return new WriteQueue(db);
+  }
+
+  /**
+   * Run `fn` on the write connection once all writes queued before it have
+   * finished. Writes made while a write is running, from within its `fn`,
+   * run right away as part of it, as they would wait for it forever.
+   * @returns `Promise` that resolves to the value returned by `fn`
+   */
+  run<T>(fn: (conn: Connection) => Promise<T>): Promise<T> {
+    const current = this.running.getStore();
+    if (current) {
+      return fn(current);
+    }
+    const result = this.tail.then(async () => {
+      const conn = await this.connection();
+      return this.running.run(conn, () => fn(conn));
+    });
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Wait for all queued writes to finish. */
+  async drain(): Promise<void> {
+    let tail;
+    do {
+      tail = this.tail;
+      await tail;
+    } while (tail !== this.tail);
+  }
+
+  // opens the write connection, again if it was closed
+  private async connection(): Promise<Connection> {
+    if (!this.conn || this.conn.closed) {
+      this.conn = await this.db.connect();
+    }
+    return this.conn;
+  }
+}
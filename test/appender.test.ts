@@ -0,0 +1,93 @@
+import { BulkInsertError, Connection, Database } from "../src/duckdb-async";
+
+describe("Appender", () => {
+  let db: Database;
+  let conn: Connection;
+
+  beforeEach(async () => {
+    db = await Database.create(":memory:");
+    conn = await db.connect();
+    await conn.exec(
+      "CREATE TABLE t (id INTEGER PRIMARY KEY, big BIGINT, at TIMESTAMP, tags VARCHAR[], info JSON)"
+    );
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  test("insertMany inserts object rows in batches", async () => {
+    const rows = Array.from({ length: 25 }, (_, id) => ({ id }));
+    expect(await conn.insertMany("t", rows, { batchSize: 10 })).toBe(25);
+    const [{ n }] = await conn.all("SELECT count(*)::INTEGER AS n FROM t");
+    expect(n).toBe(25);
+  });
+
+  test("coerces Date, BigInt and nested values", async () => {
+    const at = new Date("2024-01-02T03:04:05.000Z");
+    await db.insertMany("t", [
+      {
+        id: 1,
+        big: 9007199254740993n,
+        at,
+        tags: ["a", "b"],
+        info: { n: 1 },
+      },
+      [2, null, undefined, null, null],
+    ]);
+    const rows = await db.all(
+      "SELECT id, big::VARCHAR AS big, at, tags, info::VARCHAR AS info FROM t ORDER BY id"
+    );
+    expect(rows).toEqual([
+      {
+        id: 1,
+        big: "9007199254740993",
+        at,
+        tags: ["a", "b"],
+        info: '{"n":1}',
+      },
+      { id: 2, big: null, at: null, tags: null, info: null },
+    ]);
+  });
+
+  test("append, flush and close report inserted counts", async () => {
+    const appender = conn.createAppender("t", {
+      columns: ["id"],
+      batchSize: 2,
+    });
+    await appender.append([1]);
+    expect(appender.pendingCount).toBe(1);
+    await appender.append([2]);
+    expect(appender.pendingCount).toBe(0);
+    expect(appender.insertedCount).toBe(2);
+    await appender.append([3]);
+    expect(await appender.flush()).toBe(1);
+    expect(await appender.close()).toBe(3);
+    await expect(appender.append([4])).rejects.toThrow("appender is closed");
+  });
+
+  test("a failed batch is not inserted", async () => {
+    const rows = [{ id: 1 }, { id: 2 }, { id: 3 }, { id: 3 }];
+    const err = await conn
+      .insertMany("t", rows, { batchSize: 2 })
+      .catch((e) => e);
+    expect(err).toBeInstanceOf(BulkInsertError);
+    expect(err.insertedCount).toBe(2);
+    expect(err.rows).toEqual([{ id: 3 }, { id: 3 }]);
+    expect(await conn.all("SELECT id FROM t ORDER BY id")).toEqual([
+      { id: 1 },
+      { id: 2 },
+    ]);
+  });
+
+  test("a row that can not be appended discards the buffered rows", async () => {
+    const rows = [[1], [2], [3], [4, "extra"]];
+    await expect(
+      conn.insertMany("t", rows, { columns: ["id"], batchSize: 2 })
+    ).rejects.toThrow("expected 1 values, got 2");
+    expect(await conn.all("SELECT id FROM t ORDER BY id")).toEqual([
+      { id: 1 },
+      { id: 2 },
+    ]);
+  });
+});
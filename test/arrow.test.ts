@@ -0,0 +1,131 @@
+import { TypeInfo } from "duckdb";
+import { arrowField, decodeArrowIPC, encodeArrowIPC } from "../src/arrow";
+
+const type = (id: string, extra: Partial<TypeInfo> = {}) =>
+  ({ id, sql_type: id, ...extra } as TypeInfo);
+
+describe("Arrow IPC", () => {
+  test("round trips the values of the DuckDb NodeJS API", () => {
+    const fields = [
+      arrowField("flag", type("BOOLEAN")),
+      arrowField("tiny", type("TINYINT")),
+      arrowField("small", type("USMALLINT")),
+      arrowField("int", type("INTEGER")),
+      arrowField("big", type("BIGINT")),
+      arrowField("ubig", type("UBIGINT")),
+      arrowField("huge", type("HUGEINT")),
+      arrowField("float", type("FLOAT")),
+      arrowField("price", type("DECIMAL")),
+      arrowField("name", type("VARCHAR")),
+      arrowField("id", type("UUID")),
+      arrowField("blob", type("BLOB")),
+      arrowField("day", type("DATE")),
+      arrowField("at", type("TIMESTAMP")),
+      arrowField("atz", type("TIMESTAMP WITH TIME ZONE")),
+      arrowField("span", type("INTERVAL")),
+      arrowField("nothing", type("SQLNULL")),
+      arrowField("ids", type("LIST", { child: type("INTEGER") } as any)),
+      arrowField(
+        "point",
+        type("STRUCT", {
+          children: [
+            { name: "x", type: type("DOUBLE") },
+            { name: "tags", type: type("LIST", { child: type("VARCHAR") }) },
+          ],
+        } as any)
+      ),
+    ];
+    const rows = [
+      {
+        flag: true,
+        tiny: -128,
+        small: 65535,
+        int: -2147483648,
+        big: -(2n ** 63n),
+        ubig: 2n ** 64n - 1n,
+        huge: -(2n ** 127n),
+        float: 1.5,
+        price: 12.34,
+        name: "héllo",
+        id: "4ac7a9e9-607c-4c8a-84f3-843f0191e3fd",
+        blob: Buffer.from([1, 2, 3]),
+        day: new Date(Date.UTC(1969, 11, 31)),
+        at: new Date(1700000000123),
+        atz: new Date(-1),
+        span: { months: 1, days: -2, micros: 3000001 },
+        nothing: null,
+        ids: [1, null, 3],
+        point: { x: 0.5, tags: ["a"] },
+      },
+      {
+        flag: null,
+        tiny: null,
+        small: 0,
+        int: null,
+        big: 5n,
+        ubig: null,
+        huge: 2n ** 127n - 1n,
+        float: null,
+        price: null,
+        name: null,
+        id: null,
+        blob: Buffer.alloc(0),
+        day: null,
+        at: null,
+        atz: null,
+        span: null,
+        nothing: null,
+        ids: [],
+        point: null,
+      },
+      {
+        flag: false,
+        tiny: 127,
+        small: 1,
+        int: 7,
+        big: null,
+        ubig: 0n,
+        huge: null,
+        float: -2,
+        price: -0.5,
+        name: "",
+        id: null,
+        blob: null,
+        day: new Date(0),
+        at: new Date(0),
+        atz: null,
+        span: { months: 0, days: 0, micros: 0 },
+        nothing: null,
+        ids: null,
+        point: { x: null, tags: null },
+      },
+    ];
+    expect(decodeArrowIPC(encodeArrowIPC(fields, rows))).toEqual(rows);
+  });
+
+  test("writes 8-byte aligned messages and an end-of-stream marker", () => {
+    const buffers = encodeArrowIPC(
+      [arrowField("name", type("VARCHAR"))],
+      [{ name: "a" }, { name: "bcd" }]
+    );
+    expect(buffers).toHaveLength(3);
+    for (const buffer of buffers) {
+      expect(buffer.length % 8).toBe(0);
+      // so they can be transferred to another thread
+      expect(buffer.byteLength).toBe(buffer.buffer.byteLength);
+    }
+    expect(Buffer.from(buffers[2])).toEqual(
+      Buffer.from([255, 255, 255, 255, 0, 0, 0, 0])
+    );
+    // the same stream in a single buffer
+    expect(decodeArrowIPC([Buffer.concat(buffers)])).toEqual([
+      { name: "a" },
+      { name: "bcd" },
+    ]);
+  });
+
+  test("encodes tables without rows", () => {
+    const fields = [arrowField("n", type("INTEGER"))];
+    expect(decodeArrowIPC(encodeArrowIPC(fields, []))).toEqual([]);
+  });
+});
@@ -0,0 +1,86 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Database, DuckDbAsyncError } from "../src/duckdb-async";
+import { attachStatement } from "../src/attach";
+
+describe("attachStatement", () => {
+  test("quotes the path and alias", () => {
+    const [statement, alias] = attachStatement(
+      "Database.attach",
+      "/data/it's here/sales.duckdb",
+      { readOnly: true, type: "duckdb" }
+    );
+    expect(alias).toEqual("sales");
+    expect(statement.text).toEqual(
+      `ATTACH '/data/it''s here/sales.duckdb' AS "sales" (TYPE duckdb, READ_ONLY)`
+    );
+    expect(
+      attachStatement("Database.attach", "x.db", { alias: 'a "b"' })[0].text
+    ).toEqual(`ATTACH 'x.db' AS "a ""b"""`);
+  });
+
+  test("rejects invalid types and missing aliases", () => {
+    expect(() =>
+      attachStatement("Database.attach", "x.db", { type: "sqlite) --" })
+    ).toThrow(DuckDbAsyncError);
+    expect(() => attachStatement("Database.attach", ":memory:")).toThrow(
+      "an alias is required"
+    );
+  });
+});
+
+describe("Database.attach", () => {
+  let db: Database;
+  let dir: string;
+
+  beforeEach(async () => {
+    db = await Database.create(":memory:");
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "duckdb-async-"));
+  });
+
+  afterEach(async () => {
+    if (!db.closed) {
+      await db.close();
+    }
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("attaches, lists and detaches databases", async () => {
+    const file = path.join(dir, "it's.duckdb");
+    expect(await db.attach(file)).toEqual("it's");
+    await db.exec(`CREATE TABLE "it's".t AS SELECT 42 AS a`);
+    expect(await db.attach(":memory:", { alias: "scratch" })).toEqual(
+      "scratch"
+    );
+    const attached = await db.listAttached();
+    expect(attached.map((info) => info.name)).toEqual([
+      "it's",
+      "memory",
+      "scratch",
+    ]);
+    expect(attached[0].path).toEqual(file);
+
+    await db.detach("it's");
+    expect(await db.attach(file, { alias: "ro", readOnly: true })).toEqual(
+      "ro"
+    );
+    expect(await db.all("SELECT a FROM ro.t")).toEqual([{ a: 42 }]);
+    await expect(db.exec("INSERT INTO ro.t VALUES (1)")).rejects.toThrow();
+  });
+
+  test("scopes connections to an attached database", async () => {
+    await db.attach(":memory:", { alias: "other" });
+    await db.exec("CREATE TABLE other.t AS SELECT 'other' AS src");
+    await db.exec("CREATE TABLE t AS SELECT 'main' AS src");
+
+    const conn = await db.connect({ database: "other" });
+    expect(await conn.all("SELECT src FROM t")).toEqual([{ src: "other" }]);
+    // the statement cached before USE must not stay bound to "other"
+    await conn.use("memory", "main");
+    expect(await conn.all("SELECT src FROM t")).toEqual([{ src: "main" }]);
+    await conn.use("other");
+    expect(await conn.all("SELECT src FROM t")).toEqual([{ src: "other" }]);
+    expect(await db.all("SELECT src FROM t")).toEqual([{ src: "main" }]);
+  });
+});
@@ -1,5 +1,5 @@
 import * as duckdb from "../src/duckdb-async";
-import { Database } from "../src/duckdb-async";
+import { Database, sql } from "../src/duckdb-async";
 import fs from "fs";
 
 test("t0 - basic database create", async () => {
@@ -33,6 +33,19 @@ describe("Async API points", () => {
     });
     const user_agent = await rwOptsDb.all("PRAGMA user_agent");
     expect(user_agent[0]["user_agent"]).toMatch(/duckdb\/[^ ]* nodejs-async/);
+
+    // records of strings are validated like typed options
+    await expect(
+      Database.create(":memory:", { memory_limt: "1GB" } as any)
+    ).rejects.toThrow('unknown configuration option "memory_limt"');
+    // options DatabaseConfig does not know are passed unchecked via config
+    const configDb = await Database.create(":memory:", {
+      config: { checkpoint_threshold: "1GB" },
+    });
+    expect(String(await configDb.getSetting("checkpoint_threshold"))).toMatch(
+      /B$/
+    );
+    await configDb.close();
   });
 
   test("Database.create -- explicit numeric read/write flag", async () => {
@@ -44,6 +57,30 @@ describe("Async API points", () => {
     expect(user_agent[0]["user_agent"]).toMatch(/duckdb\/[^ ]* nodejs-async/);
   });
 
+  test("Database.create -- typed options", async () => {
+    const optsDb = await Database.create(":memory:", {
+      threads: 2,
+      memory_limit: "512MB",
+      custom_user_agent: "my-service/1.0",
+    });
+    expect(String(await optsDb.getSetting("threads"))).toBe("2");
+    const settings = await optsDb.getSettings();
+    expect(settings["threads"]).toBe("2");
+    const user_agent = await optsDb.all("PRAGMA user_agent");
+    expect(user_agent[0]["user_agent"]).toContain("my-service/1.0");
+
+    await optsDb.setSetting("threads", 1, { scope: "global" });
+    expect(String(await optsDb.getSetting("threads"))).toBe("1");
+    await expect(optsDb.setSetting("threads", 0)).rejects.toThrow(
+      'invalid value 0 for "threads"'
+    );
+    await optsDb.close();
+
+    await expect(
+      Database.create(":memory:", { thread: 2 } as any)
+    ).rejects.toThrow('unknown configuration option "thread"');
+  });
+
   test("Database.create -- user agent", async () => {
     const rwDb = await Database.create(":memory:");
     const user_agent = await rwDb.all("PRAGMA user_agent");
@@ -68,6 +105,38 @@ describe("Async API points", () => {
     }
   });
 
+  test("Database.all -- typed query errors", async () => {
+    const err = await db
+      .all("select * from bogusTable where id = ?", 1)
+      .catch((e) => e);
+    expect(err).toBeInstanceOf(duckdb.CatalogError);
+    expect(err.sql).toBe("select * from bogusTable where id = ?");
+    expect(err.params).toEqual([1]);
+    expect(err.method).toBe("Database.all");
+
+    await expect(db.exec("selec 1")).rejects.toBeInstanceOf(
+      duckdb.ParserError
+    );
+  });
+
+  test("Database.create -- redactParams", async () => {
+    const redacting = await Database.create(":memory:", {
+      redactParams: true,
+    });
+    const query = "select * from bogusTable where id = ?";
+    const err = await redacting.all(query, 1).catch((e) => e);
+    expect(err.params).toEqual(["[redacted]"]);
+
+    const conn = await redacting.connect({ redactParams: false });
+    const connErr = await conn.all(query, 1).catch((e) => e);
+    expect(connErr.params).toEqual([1]);
+    await redacting.close();
+
+    // other databases keep reporting the values
+    const plainErr = await db.all(query, 1).catch((e) => e);
+    expect(plainErr.params).toEqual([1]);
+  });
+
   test("Database.exec -- multiple statements (and verify results)", async () => {
     var sql = fs.readFileSync("test/support/script.sql", "utf8");
     await db.exec(sql);
@@ -107,6 +176,36 @@ describe("Async API points", () => {
     ]);
   });
 
+  test("Connection.all -- typed rows", async () => {
+    const conn = await db.connect();
+    const rows = await conn.all<{ a: number; b: string }>(
+      "SELECT 42 AS a, 'hello' AS b"
+    );
+    expect(rows[0].a).toBe(42);
+    expect(rows[0].b.toUpperCase()).toBe("HELLO");
+    await conn.close();
+  });
+
+  test("Connection.all -- sql template", async () => {
+    const conn = await db.connect();
+    const ids = [2, 4, 6];
+    const rows = await conn.all(
+      sql`SELECT range AS ${sql.identifier("id")} FROM range(0, ${10})
+          WHERE range IN (${sql.join(ids)}) ORDER BY 1`
+    );
+    expect(rows).toEqual([{ id: 2n }, { id: 4n }, { id: 6n }]);
+
+    await conn.exec(sql`CREATE TABLE sql_tag (s VARCHAR)`);
+    await conn.exec(sql`INSERT INTO sql_tag VALUES (${"it's"})`);
+    expect(await conn.all(sql`SELECT s FROM sql_tag`)).toEqual([
+      { s: "it's" },
+    ]);
+    await expect(conn.prepare(sql`SELECT ${1}`)).rejects.toThrow(
+      "can not be prepared"
+    );
+    await conn.close();
+  });
+
   test("basic connect and Connection.close", async () => {
     const minVal = 1,
       maxVal = 10;
@@ -135,11 +234,54 @@ describe("Async API points", () => {
         maxVal
       );
     } catch (rawErr) {
+      expect(rawErr).toBeInstanceOf(duckdb.ConnectionClosedError);
       const err = rawErr as duckdb.DuckDbError;
-      expect(err.message).toContain("uninitialized connection");
+      expect(err.message).toContain("connection is closed");
     }
   });
 
+  test("Connection.transaction -- commit and rollback", async () => {
+    const conn = await db.connect();
+    await conn.exec("CREATE TABLE tx_test (i INTEGER)");
+
+    const result = await conn.transaction(async (tx) => {
+      await tx.exec("INSERT INTO tx_test VALUES (1)");
+      return "committed";
+    });
+    expect(result).toBe("committed");
+
+    await expect(
+      conn.transaction(async (tx) => {
+        await tx.exec("INSERT INTO tx_test VALUES (2)");
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+
+    const rows = await conn.all("SELECT i FROM tx_test");
+    expect(rows).toEqual([{ i: 1 }]);
+    await conn.close();
+  });
+
+  test("Connection.transaction -- nested transactions are rejected", async () => {
+    const conn = await db.connect();
+    await expect(
+      conn.transaction(async (tx) => tx.transaction(async () => 1))
+    ).rejects.toThrow("nested transactions are not supported");
+    // the outer transaction was rolled back, so a new one can start
+    expect(await conn.transaction(async () => 2)).toBe(2);
+    await conn.close();
+  });
+
+  test("Connection.transaction -- concurrent transactions are rejected", async () => {
+    const conn = await db.connect();
+    const first = conn.transaction(async () => 1);
+    await expect(conn.transaction(async () => 2)).rejects.toThrow(
+      "nested transactions are not supported"
+    );
+    expect(await first).toBe(1);
+    await conn.close();
+  });
+
   test("basic statement prepare/run/finalize", async () => {
     const stmt = await db.prepare(
       "CREATE TABLE foo (txt text, num int, flt double, blb blob)"
@@ -165,6 +307,62 @@ describe("Async API points", () => {
     ]);
   });
 
+  test("Statement.withRowParser", async () => {
+    const stmt = (
+      await db.prepare<[number]>("SELECT ?::INTEGER AS n, 'x' AS s")
+    ).withRowParser((row) => {
+      const { n, s } = row as { n: unknown; s: unknown };
+      if (typeof n !== "number" || typeof s !== "string") {
+        throw new Error("unexpected row shape");
+      }
+      return { n, s };
+    });
+    const rows = await stmt.all(7);
+    expect(rows[0].n + 1).toBe(8);
+    expect(rows).toEqual([{ n: 7, s: "x" }]);
+
+    const badStmt = (await db.prepare("SELECT 'oops' AS n")).withRowParser(
+      (row) => {
+        if (typeof (row as { n: unknown }).n !== "number") {
+          throw new Error("unexpected row shape");
+        }
+        return row as { n: number };
+      }
+    );
+    await expect(badStmt.all()).rejects.toThrow("unexpected row shape");
+  });
+
+  test("parseRow query option", async () => {
+    const parseRow = (row: unknown) => {
+      const { n } = row as { n: unknown };
+      if (typeof n !== "number") {
+        throw new Error("unexpected row shape");
+      }
+      return { n };
+    };
+    const conn = await db.connect();
+    const rows = await conn.all<{ n: number }>("SELECT ?::INTEGER AS n", 7, {
+      parseRow,
+    });
+    expect(rows).toEqual([{ n: 7 }]);
+    const { rows: metadataRows } = await db.allWithMetadata(
+      "SELECT 1::INTEGER AS n",
+      { parseRow }
+    );
+    expect(metadataRows).toEqual([{ n: 1 }]);
+    await expect(db.all("SELECT 'oops' AS n", { parseRow })).rejects.toThrow(
+      "unexpected row shape"
+    );
+    const iterated = [];
+    for await (const row of conn.iterate("SELECT 2::INTEGER AS n", {
+      parseRow,
+    })) {
+      iterated.push(row);
+    }
+    expect(iterated).toEqual([{ n: 2 }]);
+    await conn.close();
+  });
+
   test("Statement.columns", async () => {
     const stmt = await db.prepare(
       "SELECT * EXCLUDE(medium_enum, large_enum) FROM test_all_types()"
@@ -180,6 +378,197 @@ describe("Async API points", () => {
       .finalize();
   });
 
+  test("named parameters", async () => {
+    const conn = await db.connect();
+    const rows = await conn.all("SELECT $a + $b AS sum, $a AS a", {
+      a: 40,
+      b: 2,
+    });
+    expect(rows).toEqual([{ sum: 42, a: 40 }]);
+
+    const stmt = await db.prepare<[{ name: string }]>(
+      "SELECT upper($name) AS upper"
+    );
+    expect(await stmt.all({ name: "duck" })).toEqual([{ upper: "DUCK" }]);
+    await expect(stmt.all({} as { name: string })).rejects.toThrow(
+      "missing value for parameter $name"
+    );
+    await stmt.finalize();
+    await conn.close();
+  });
+
+  test("Statement -- await using", async () => {
+    const stmt = await db.prepare("SELECT 42 AS a");
+    await stmt[Symbol.asyncDispose]();
+    await expect(stmt.all()).rejects.toThrow();
+  });
+
+  test("Database.close -- closes connections and statements", async () => {
+    const db2 = await Database.create(":memory:");
+    const conn = await db2.connect();
+    const connStmt = await conn.prepare("SELECT 1 AS a");
+    const dbStmt = await db2.prepare("SELECT 2 AS b");
+    const connRun = await conn.run("SELECT 3 AS c");
+    const dbRun = await db2.run("SELECT 4 AS d");
+    await db2.close();
+    expect(db2.closed).toBe(true);
+    expect(conn.closed).toBe(true);
+    expect(connStmt.closed).toBe(true);
+    expect(dbStmt.closed).toBe(true);
+    expect(connRun.closed).toBe(true);
+    expect(dbRun.closed).toBe(true);
+    await expect(conn.all("SELECT 1")).rejects.toThrow(
+      duckdb.ConnectionClosedError
+    );
+    await expect(connStmt.all()).rejects.toThrow(duckdb.StatementClosedError);
+    expect(() => dbStmt.columns()).toThrow("statement is closed");
+    // finalizing a closed statement does nothing
+    await dbStmt.finalize();
+  });
+
+  test("Database -- asyncDispose", async () => {
+    const db2 = await Database.create(":memory:");
+    const conn = await db2.connect();
+    await conn[Symbol.asyncDispose]();
+    expect(conn.closed).toBe(true);
+    await db2[Symbol.asyncDispose]();
+    expect(db2.closed).toBe(true);
+    // disposing again does nothing
+    await db2[Symbol.asyncDispose]();
+  });
+
+  test("allWithMetadata", async () => {
+    const conn = await db.connect();
+    await conn.exec("CREATE TEMP TABLE meta (id INTEGER, name VARCHAR)");
+    const empty = await conn.allWithMetadata("SELECT * FROM meta");
+    expect(empty.rows).toEqual([]);
+    expect(empty.rowCount).toBe(0);
+    expect(empty.columns.map((c) => [c.name, c.type.sql_type])).toEqual([
+      ["id", "INTEGER"],
+      ["name", "VARCHAR"],
+    ]);
+    expect(empty.elapsedMs).toBeGreaterThanOrEqual(0);
+
+    await conn.run("INSERT INTO meta VALUES (1, 'a'), (2, 'b')");
+    const result = await conn.allWithMetadata(
+      "SELECT * FROM meta WHERE id >= ? ORDER BY id",
+      1
+    );
+    expect(result.rowCount).toBe(2);
+    expect(duckdb.toColumnar(result).values).toEqual({
+      id: [1, 2],
+      name: ["a", "b"],
+    });
+
+    const stmt = await conn.prepare("SELECT id FROM meta WHERE id = $id");
+    const one = await stmt.allWithMetadata({ id: 2 });
+    expect(one.rows).toEqual([{ id: 2 }]);
+    expect(one.columns.map((c) => c.name)).toEqual(["id"]);
+    await stmt.finalize();
+    await conn.close();
+
+    const dbResult = await db.allWithMetadata("SELECT 42::BIGINT AS answer");
+    expect(dbResult.rows).toEqual([{ answer: 42n }]);
+    expect(dbResult.columns[0].type.id).toBe("BIGINT");
+  });
+
+  test("type mapping", async () => {
+    const db2 = await Database.create(":memory:", {
+      types: { bigint: "string", decimal: "string", timestamp: "string" },
+    });
+    const query = `SELECT 42::BIGINT AS big, 1.5::DECIMAL(9,2) AS price,
+      TIMESTAMP '2024-01-02 03:04:05' AS at, [1, 2]::BIGINT[] AS ids`;
+    const expected = {
+      big: "42",
+      price: "1.50",
+      at: "2024-01-02T03:04:05.000Z",
+      ids: ["1", "2"],
+    };
+    expect(await db2.all(query)).toEqual([expected]);
+
+    const conn = await db2.connect({ statementCacheSize: 0 });
+    expect(await conn.all(query)).toEqual([expected]);
+    const rows: duckdb.RowData[] = [];
+    await new Promise<void>((resolve, reject) =>
+      conn.each(query, (err: Error | null, row: duckdb.RowData) => {
+        if (err) {
+          reject(err);
+        } else {
+          rows.push(row);
+          resolve();
+        }
+      })
+    );
+    expect(rows).toEqual([expected]);
+
+    // rows are streamed, and errors thrown by the callback stop the query
+    const seen: string[] = [];
+    const thrown = await new Promise<Error>((resolve) =>
+      conn.each(
+        "SELECT range::BIGINT AS i FROM range(5000)",
+        (err: Error | null, row: duckdb.RowData) => {
+          if (err) {
+            resolve(err);
+            return;
+          }
+          seen.push(row.i);
+          if (row.i === "2") {
+            throw new Error("stop here");
+          }
+        }
+      )
+    );
+    expect(thrown.message).toBe("stop here");
+    expect(seen).toEqual(["0", "1", "2"]);
+
+    // a connection's mapping replaces the database's
+    const numbers = await db2.connect({ types: { bigint: "number" } });
+    expect(await numbers.all("SELECT 42::BIGINT AS big")).toEqual([
+      { big: 42 },
+    ]);
+    // function arguments are mapped too, and typed by typesFor()
+    const types = duckdb.typesFor({ bigint: "number" });
+    await numbers.defineFunction({
+      name: "type_of",
+      params: [types.BIGINT],
+      returns: types.BIGINT,
+      fn: (n: number) => (typeof n === "number" ? n + 1 : -1),
+    });
+    expect(await numbers.all("SELECT type_of(1::BIGINT) AS t")).toEqual([
+      { t: 2 },
+    ]);
+    await expect(
+      numbers.defineFunction({
+        name: "unmapped",
+        params: [duckdb.Types.BIGINT],
+        returns: duckdb.Types.BIGINT,
+        fn: (n) => n,
+      })
+    ).rejects.toThrow("use typesFor()");
+    await db2.close();
+
+    await expect(
+      Database.create(":memory:", {
+        types: { decimal: "float" as any },
+      })
+    ).rejects.toThrow("invalid decimal type mapping");
+  });
+
+  test("Connection.all -- statement cache", async () => {
+    const conn = await db.connect({ statementCacheSize: 2 });
+    for (let i = 0; i < 3; i++) {
+      expect(await conn.all("SELECT ?::INTEGER AS v", i)).toEqual([{ v: i }]);
+    }
+    await conn.all("CREATE TEMP TABLE cached (a INTEGER)");
+    // multiple statements are not cached, so both inserts run every time
+    const inserts = "INSERT INTO cached VALUES (1); INSERT INTO cached VALUES (2)";
+    await conn.all(inserts);
+    await conn.all(inserts);
+    const [{ n }] = await conn.all("SELECT count(*)::INTEGER AS n FROM cached");
+    expect(n).toBe(4);
+    await conn.close();
+  });
+
   test("ternary int udf", async () => {
     await db.register_udf(
       "udf",
@@ -203,6 +592,51 @@ describe("Async API points", () => {
     expect(total).toEqual(retrieved);
   });
 
+  test("Connection.iterate", async () => {
+    const total = 5000;
+
+    let retrieved = 0;
+    const conn = await db.connect();
+    for await (const row of conn.iterate("SELECT * FROM range(0, ?)", total)) {
+      expect(row.range).toBe(BigInt(retrieved));
+      retrieved++;
+    }
+    expect(retrieved).toEqual(total);
+    await conn.close();
+  });
+
+  test("Connection.iterateChunks -- early exit", async () => {
+    const conn = await db.connect();
+    let chunks = 0;
+    const chunkIter = conn.iterateChunks("SELECT * FROM range(0, 100000)");
+    for await (const chunk of chunkIter) {
+      expect(chunk.length).toBeGreaterThan(0);
+      chunks++;
+      break;
+    }
+    expect(chunks).toBe(1);
+    // connection is still usable after abandoning the stream
+    const rows = await conn.all("SELECT 42 AS a");
+    expect(rows).toEqual([{ a: 42 }]);
+    await conn.close();
+  });
+
+  test("Database.iterate and Statement.iterate", async () => {
+    let dbRows = 0;
+    for await (const row of db.iterate("SELECT * FROM range(0, 10)")) {
+      dbRows++;
+    }
+    expect(dbRows).toBe(10);
+
+    const stmt = await db.prepare("SELECT * FROM range(0, ?)");
+    const stmtRows = [];
+    for await (const row of stmt.iterate(3)) {
+      stmtRows.push(row);
+    }
+    expect(stmtRows).toEqual([{ range: 0n }, { range: 1n }, { range: 2n }]);
+    await stmt.finalize();
+  });
+
   test("arrowIPCAll", async () => {
     const range_size = 100;
     const query = `SELECT * FROM range(0,${range_size}) tbl(i)`;
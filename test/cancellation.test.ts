@@ -0,0 +1,93 @@
+import {
+  Database,
+  QueryCancelledError,
+  QueryTimeoutError,
+  sql,
+} from "../src/duckdb-async";
+
+// takes a noticeable fraction of a second, but not so long that
+// waiting for the abandoned query holds up the test run
+const slowQuery = "SELECT sum(range) AS s FROM range(300000000)";
+
+describe("query cancellation", () => {
+  let db: Database;
+
+  beforeAll(async () => {
+    db = await Database.create(":memory:");
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  test("options after parameters are not bound", async () => {
+    const conn = await db.connect();
+    const rows = await conn.all("SELECT ?::INTEGER AS a", 1, {
+      timeoutMs: 10000,
+    });
+    expect(rows).toEqual([{ a: 1 }]);
+    expect(
+      await conn.all(sql`SELECT ${2}::INTEGER AS a`, { timeoutMs: 10000 })
+    ).toEqual([{ a: 2 }]);
+    await conn.close();
+  });
+
+  test("already aborted signal rejects without running the query", async () => {
+    const conn = await db.connect();
+    const controller = new AbortController();
+    controller.abort("client went away");
+    const err = await conn
+      .exec("CREATE TABLE never_created (i INTEGER)", {
+        signal: controller.signal,
+      })
+      .catch((e) => e);
+    expect(err).toBeInstanceOf(QueryCancelledError);
+    expect(err.reason).toBe("client went away");
+    expect(err.message).toBe("Connection.exec: query cancelled");
+    await expect(conn.all("SELECT * FROM never_created")).rejects.toThrow(
+      "never_created"
+    );
+    await conn.close();
+  });
+
+  test("timeoutMs rejects with QueryTimeoutError", async () => {
+    const err = await db.all(slowQuery, { timeoutMs: 1 }).catch((e) => e);
+    expect(err).toBeInstanceOf(QueryTimeoutError);
+    expect(err).toBeInstanceOf(QueryCancelledError);
+    expect(err.timeoutMs).toBe(1);
+  });
+
+  test("aborting stops fetching the result of all()", async () => {
+    const conn = await db.connect();
+    const controller = new AbortController();
+    const interrupt = jest.spyOn(db.instrumentation, "interrupt_internal");
+    const query = conn.all("SELECT * FROM range(0, 100000000)", {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 10);
+    await expect(query).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(interrupt).toHaveBeenCalled();
+    interrupt.mockRestore();
+    // the connection is free again once the released statement stops
+    expect(await conn.all("SELECT 1 AS a")).toEqual([{ a: 1 }]);
+    await conn.close();
+  });
+
+  test("aborting stops Statement.iterate", async () => {
+    const stmt = await db.prepare("SELECT * FROM range(0, ?)");
+    const controller = new AbortController();
+    let rows = 0;
+    const iteration = (async () => {
+      for await (const row of stmt.iterate(10000000, {
+        signal: controller.signal,
+      })) {
+        if (++rows === 10) {
+          controller.abort();
+        }
+      }
+    })();
+    await expect(iteration).rejects.toBeInstanceOf(QueryCancelledError);
+    expect(rows).toBeLessThan(10000000);
+    await stmt.finalize();
+  });
+});
@@ -0,0 +1,105 @@
+import { CatalogError, Database } from "../src/duckdb-async";
+
+describe("Database.schema", () => {
+  let db: Database;
+
+  beforeAll(async () => {
+    db = await Database.create(":memory:");
+    await db.exec(`
+      CREATE SCHEMA app;
+      CREATE TABLE app.products (
+        id INTEGER PRIMARY KEY,
+        name VARCHAR NOT NULL,
+        price DECIMAL(10, 2) DEFAULT 0 CHECK (price >= 0),
+        tags VARCHAR[]
+      );
+      CREATE TABLE app.orders (
+        id INTEGER,
+        product_id INTEGER REFERENCES app.products (id)
+      );
+      CREATE VIEW app.cheap AS SELECT * FROM app.products WHERE price < 10;
+      CREATE MACRO app.add_one(x) AS x + 1;
+    `);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  test("lists databases and schemas", async () => {
+    const databases = await db.schema.listDatabases();
+    expect(databases.map((d) => d.name)).toContain("memory");
+    const schemas = await db.schema.listSchemas({ database: "memory" });
+    expect(schemas).toContainEqual(
+      expect.objectContaining({ database: "memory", name: "app" })
+    );
+  });
+
+  test("lists tables and views", async () => {
+    const tables = await db.schema.listTables({ schema: "app" });
+    expect(tables.map((t) => t.name)).toEqual(["orders", "products"]);
+    expect(tables[1]).toMatchObject({
+      database: "memory",
+      schema: "app",
+      temporary: false,
+      columnCount: 4,
+    });
+    const views = await db.schema.listViews({ schema: "app" });
+    expect(views).toEqual([
+      expect.objectContaining({ name: "cheap", schema: "app" }),
+    ]);
+  });
+
+  test("describes tables with structured types", async () => {
+    const table = await db.schema.describeTable(["app", "products"]);
+    expect(table.name).toEqual("products");
+    expect(table.columns.map((c) => [c.name, c.nullable, c.default])).toEqual([
+      ["id", false, null],
+      ["name", false, null],
+      ["price", true, expect.stringContaining("0")],
+      ["tags", true, null],
+    ]);
+    expect(table.columns[2].type).toMatchObject({
+      id: "DECIMAL",
+      width: 10,
+      scale: 2,
+    });
+    expect(table.columns[3].type).toMatchObject({
+      id: "LIST",
+      child: { id: "VARCHAR" },
+    });
+    const types = table.constraints.map((c) => c.type);
+    expect(types).toContain("PRIMARY KEY");
+    expect(types).toContain("CHECK");
+
+    const orders = await db.schema.describeTable("memory.app.orders".split("."));
+    expect(
+      orders.constraints.find((c) => c.type === "FOREIGN KEY")
+    ).toMatchObject({
+      columns: ["product_id"],
+      referencedTable: "products",
+      referencedColumns: ["id"],
+    });
+  });
+
+  test("describeTable reports missing tables and views", async () => {
+    await expect(db.schema.describeTable("missing")).rejects.toBeInstanceOf(
+      CatalogError
+    );
+    await expect(db.schema.describeTable(["app", "cheap"])).rejects.toThrow(
+      "is not a table"
+    );
+  });
+
+  test("lists user defined functions", async () => {
+    const functions = await db.schema.listFunctions({ schema: "app" });
+    expect(functions).toEqual([
+      expect.objectContaining({
+        name: "add_one",
+        type: "macro",
+        parameters: ["x"],
+        internal: false,
+      }),
+    ]);
+  });
+});
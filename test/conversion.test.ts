@@ -0,0 +1,150 @@
+import { TypeInfo } from "duckdb";
+import {
+  argumentConverter,
+  checkTypeMapping,
+  rowConverter,
+} from "../src/conversion";
+
+const type = (id: string, extra: Partial<TypeInfo> = {}) =>
+  ({ id, sql_type: id, ...extra } as TypeInfo);
+
+describe("rowConverter", () => {
+  test("returns null when there is nothing to convert", () => {
+    const columns = [{ name: "a", type: type("BIGINT") }];
+    expect(rowConverter("test", null, columns)).toBeNull();
+    expect(rowConverter("test", {}, columns)).toBeNull();
+    expect(rowConverter("test", { bigint: "string" }, null)).toBeNull();
+    expect(
+      rowConverter("test", { bigint: "string" }, [
+        { name: "a", type: type("INTEGER") },
+      ])
+    ).toBeNull();
+  });
+
+  test("converts integers, decimals and timestamps", () => {
+    const convert = rowConverter(
+      "test",
+      { bigint: "number", decimal: "string", timestamp: "string" },
+      [
+        { name: "big", type: type("HUGEINT") },
+        {
+          name: "price",
+          type: {
+            id: "DECIMAL",
+            sql_type: "DECIMAL(9,2)",
+            width: 9,
+            scale: 2,
+          },
+        },
+        { name: "at", type: type("TIMESTAMP WITH TIME ZONE") },
+        { name: "missing", type: type("BIGINT") },
+      ]
+    )!;
+    const row = {
+      big: 42n,
+      price: 1.5,
+      at: new Date(Date.UTC(2024, 0, 2, 3, 4, 5)),
+      missing: null,
+    };
+    convert(row);
+    expect(row).toEqual({
+      big: 42,
+      price: "1.50",
+      at: "2024-01-02T03:04:05.000Z",
+      missing: null,
+    });
+  });
+
+  test("rejects integers that do not fit in a number", () => {
+    const convert = rowConverter("Connection.all", { bigint: "number" }, [
+      { name: "a", type: type("BIGINT") },
+    ])!;
+    expect(() => convert({ a: 2n ** 60n })).toThrow(
+      "Connection.all: integer 1152921504606846976 can not be represented exactly as a number"
+    );
+  });
+
+  test("converts values nested in lists and structs", () => {
+    const convert = rowConverter("test", { bigint: "string" }, [
+      {
+        name: "s",
+        type: {
+          id: "STRUCT",
+          sql_type: "STRUCT(ids BIGINT[], n INTEGER)",
+          children: [
+            {
+              name: "ids",
+              type: {
+                id: "LIST",
+                sql_type: "BIGINT[]",
+                child: type("BIGINT"),
+              },
+            },
+            { name: "n", type: type("INTEGER") },
+          ],
+        },
+      },
+    ])!;
+    const row = { s: { ids: [1n, null, 3n], n: 4 } };
+    convert(row);
+    expect(row).toEqual({ s: { ids: ["1", null, "3"], n: 4 } });
+  });
+
+  test("custom converters take precedence, by alias, SQL type or id", () => {
+    const convert = rowConverter(
+      "test",
+      {
+        bigint: "string",
+        converters: {
+          MAP: (value: string) => value.length,
+          "DECIMAL(4,1)": (value: number) => Math.round(value),
+          money: (value: bigint) => Number(value) / 100,
+        },
+      },
+      [
+        { name: "m", type: type("MAP") },
+        {
+          name: "d",
+          type: {
+            id: "DECIMAL",
+            sql_type: "DECIMAL(4,1)",
+            width: 4,
+            scale: 1,
+          },
+        },
+        { name: "c", type: type("BIGINT", { alias: "money" }) },
+      ]
+    )!;
+    const row = { m: "{a=1}", d: 2.6, c: 1234n };
+    convert(row);
+    expect(row).toEqual({ m: 5, d: 3, c: 12.34 });
+  });
+
+  test("temporal timestamps require a global Temporal object", () => {
+    expect(() =>
+      rowConverter("Database.all", { timestamp: "temporal" }, [
+        { name: "t", type: type("TIMESTAMP") },
+      ])
+    ).toThrow('Database.all: timestamp mapping "temporal" requires');
+  });
+});
+
+describe("argumentConverter", () => {
+  test("converts UDF arguments by SQL type name", () => {
+    const convert = argumentConverter("test", { bigint: "number" }, "BIGINT");
+    expect(convert?.(7n)).toBe(7);
+    expect(argumentConverter("test", { bigint: "number" }, "VARCHAR")).toBe(
+      null
+    );
+    expect(argumentConverter("test", null, "BIGINT")).toBeNull();
+  });
+});
+
+describe("checkTypeMapping", () => {
+  test("rejects unknown representations", () => {
+    expect(() =>
+      checkTypeMapping("Database.create", { bigint: "int" as any })
+    ).toThrow('Database.create: invalid bigint type mapping "int"');
+    checkTypeMapping("Database.create", { timestamp: "Date" });
+  });
+});
@@ -0,0 +1,102 @@
+import type { DuckDbError, ExceptionType } from "duckdb";
+import {
+  CatalogError,
+  ConnectionClosedError,
+  DuckDbAsyncError,
+  ParserError,
+  QueryError,
+  TransactionConflictError,
+  TransactionError,
+  toQueryError,
+} from "../src/errors";
+import { queryContext } from "../src/query";
+
+function duckDbError(errorType: ExceptionType, message: string): DuckDbError {
+  return Object.assign(new Error(message), {
+    errno: -1 as const,
+    code: "DUCKDB_NODEJS_ERROR" as const,
+    errorType,
+  });
+}
+
+describe("error translation", () => {
+  test("DuckDb errors map to subclasses by errorType", () => {
+    const cause = duckDbError(
+      "Catalog",
+      "Catalog Error: Table with name bogus does not exist!"
+    );
+    const err = toQueryError(cause, {
+      method: "Connection.all",
+      sql: "SELECT * FROM bogus WHERE id = ?",
+      params: [1],
+    }) as QueryError;
+
+    expect(err).toBeInstanceOf(CatalogError);
+    expect(err).toBeInstanceOf(QueryError);
+    expect(err).toBeInstanceOf(DuckDbAsyncError);
+    expect(err.name).toBe("CatalogError");
+    expect(err.message).toBe(cause.message);
+    expect(err.code).toBe("DUCKDB_NODEJS_ERROR");
+    expect(err.errorType).toBe("Catalog");
+    expect(err.method).toBe("Connection.all");
+    expect(err.sql).toBe("SELECT * FROM bogus WHERE id = ?");
+    expect(err.params).toEqual([1]);
+    expect(err.cause).toBe(cause);
+
+    const parseErr = toQueryError(duckDbError("Parser", "syntax error"), {
+      method: "Database.exec",
+    });
+    expect(parseErr).toBeInstanceOf(ParserError);
+
+    const other = toQueryError(duckDbError("Executor", "boom"), {
+      method: "Database.exec",
+    });
+    expect(other).toBeInstanceOf(QueryError);
+    expect(other).not.toBeInstanceOf(CatalogError);
+  });
+
+  test("transaction conflicts are distinguished", () => {
+    const conflict = toQueryError(
+      duckDbError(
+        "TransactionContext",
+        "TransactionContext Error: Catalog write-write conflict on alter"
+      ),
+      { method: "Connection.exec", sql: "COMMIT" }
+    );
+    expect(conflict).toBeInstanceOf(TransactionConflictError);
+    expect(conflict).toBeInstanceOf(TransactionError);
+
+    const noTx = toQueryError(
+      duckDbError(
+        "TransactionContext",
+        "TransactionContext Error: cannot commit - no transaction is active"
+      ),
+      { method: "Connection.exec", sql: "COMMIT" }
+    );
+    expect(noTx).toBeInstanceOf(TransactionError);
+    expect(noTx).not.toBeInstanceOf(TransactionConflictError);
+  });
+
+  test("params can be redacted", () => {
+    const sql = "INSERT INTO users VALUES (?, ?)";
+    const err = toQueryError(
+      duckDbError("Constraint", "duplicate key"),
+      queryContext("Statement.run", sql, ["alice", "s3cret"], true)
+    ) as QueryError;
+    expect(err.params).toEqual(["[redacted]", "[redacted]"]);
+    expect(queryContext("Statement.run", sql, ["alice"], false)).toEqual({
+      method: "Statement.run",
+      sql,
+      params: ["alice"],
+    });
+  });
+
+  test("other errors are passed through unchanged", () => {
+    const plain = new Error("not from DuckDb");
+    expect(toQueryError(plain, { method: "Connection.all" })).toBe(plain);
+
+    const closed = new ConnectionClosedError("Connection.all");
+    expect(toQueryError(closed, { method: "Connection.all" })).toBe(closed);
+    expect(closed.message).toBe("Connection.all: connection is closed");
+  });
+});
@@ -0,0 +1,60 @@
+import { Database, IOError } from "../src/duckdb-async";
+
+describe("extensions", () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = await Database.create(":memory:");
+  });
+
+  afterEach(async () => {
+    if (!db.closed) {
+      await db.close();
+    }
+  });
+
+  test("lists built-in extensions", async () => {
+    await db.extensions.load("parquet");
+    const extensions = await db.extensions.list();
+    const parquet = extensions.find((e) => e.name === "parquet");
+    expect(parquet).toMatchObject({ loaded: true, installed: true });
+    expect(Array.isArray(parquet?.aliases)).toBe(true);
+  });
+
+  test("validates extension names and options", async () => {
+    await expect(db.extensions.load("json; DROP TABLE t")).rejects.toThrow(
+      'invalid extension name "json; DROP TABLE t"'
+    );
+    await expect(
+      db.extensions.install("json", {
+        repository: "core",
+        fromPath: "/tmp/json.duckdb_extension",
+      })
+    ).rejects.toThrow("repository and fromPath can not be combined");
+  });
+
+  test("loading a missing extension file fails", async () => {
+    await expect(
+      db.extensions.load("/nonexistent/missing.duckdb_extension")
+    ).rejects.toBeInstanceOf(IOError);
+  });
+
+  test("loads extensions on open and on new connections", async () => {
+    await db.close();
+    db = await Database.create(":memory:", { loadExtensions: ["json"] });
+    const conn = await db.connect();
+    expect(await conn.all(`SELECT '{"a": 1}'::JSON->>'a' AS a`)).toEqual([
+      { a: "1" },
+    ]);
+    await conn.close();
+
+    await expect(
+      Database.create(":memory:", {
+        loadExtensions: ["/nonexistent/missing.duckdb_extension"],
+      })
+    ).rejects.toBeInstanceOf(IOError);
+    await expect(
+      Database.create(":memory:", { loadExtensions: ["bad name"] })
+    ).rejects.toThrow('Database.create: invalid extension name "bad name"');
+  });
+});
@@ -0,0 +1,113 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Database, DuckDbAsyncError, sql } from "../src/duckdb-async";
+import { readCsv, readJson, readParquet } from "../src/files";
+
+describe("read functions", () => {
+  test("render options with DuckDb's names", () => {
+    const fragment = readCsv("data/*.csv", {
+      delimiter: ";",
+      header: true,
+      columns: { id: "INTEGER", "it's": "VARCHAR" },
+      nullString: ["", "NA"],
+      dateFormat: "%d/%m/%Y",
+      hivePartitioning: true,
+      sampleSize: undefined,
+    });
+    expect(fragment.text).toEqual(
+      "read_csv('data/*.csv', delim = ';', header = true, " +
+        "columns = {'id': 'INTEGER', 'it''s': 'VARCHAR'}, " +
+        "nullstr = ['', 'NA'], dateformat = '%d/%m/%Y', " +
+        "hive_partitioning = true)"
+    );
+    expect(fragment.values).toEqual([]);
+  });
+
+  test("accept lists of paths", () => {
+    expect(readParquet(["a.parquet", "b.parquet"]).text).toEqual(
+      "read_parquet(['a.parquet', 'b.parquet'])"
+    );
+    expect(readJson("x.json", { format: "array" }).text).toEqual(
+      "read_json('x.json', format = 'array')"
+    );
+  });
+
+  test("reject invalid option names", () => {
+    expect(() =>
+      readCsv("x.csv", { "header = true) --": true } as any)
+    ).toThrow(DuckDbAsyncError);
+  });
+});
+
+describe("file import and export", () => {
+  let db: Database;
+  let dir: string;
+
+  beforeAll(async () => {
+    db = await Database.create(":memory:");
+    await db.exec(`
+      CREATE TABLE t AS
+      SELECT i AS id, 'name ' || i AS name, i % 2 AS part FROM range(4) r(i);
+    `);
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "duckdb-async-test-"));
+  });
+
+  afterAll(async () => {
+    await db.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test("copyTo and readParquet round trip a table", async () => {
+    const file = path.join(dir, "t.parquet");
+    expect(
+      await db.copyTo("t", file, { format: "parquet", compression: "zstd" })
+    ).toEqual(4);
+    const rows = await db.readParquet(file);
+    expect(rows).toHaveLength(4);
+    expect(rows[0]).toMatchObject({ name: "name 0" });
+  });
+
+  test("copyTo exports a query with parameters as CSV", async () => {
+    const file = path.join(dir, "q.csv");
+    const count = await db.copyTo(
+      sql`SELECT id, name FROM t WHERE id >= ${2} ORDER BY id`,
+      file,
+      { header: true, delimiter: ";" }
+    );
+    expect(count).toEqual(2);
+    expect(await fs.readFile(file, "utf8")).toEqual(
+      "id;name\n2;name 2\n3;name 3\n"
+    );
+    const rows = await db.readCsv(file, {
+      delimiter: ";",
+      columns: { id: "INTEGER", name: "VARCHAR" },
+    });
+    expect(rows).toEqual([
+      { id: 2, name: "name 2" },
+      { id: 3, name: "name 3" },
+    ]);
+  });
+
+  test("copyTo partitions output", async () => {
+    const out = path.join(dir, "parts");
+    await db.copyTo("t", out, { format: "parquet", partitionBy: ["part"] });
+    expect((await fs.readdir(out)).sort()).toEqual(["part=0", "part=1"]);
+    const rows = await db.readParquet(path.join(out, "*/*.parquet"), {
+      hivePartitioning: true,
+    });
+    expect(rows).toHaveLength(4);
+  });
+
+  test("copyToBuffer returns the exported file", async () => {
+    const buffer = await db.copyToBuffer("t", { format: "json" });
+    const lines = buffer.toString("utf8").trim().split("\n");
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual([0, 1, 2, 3]);
+  });
+
+  test("copyToBuffer rejects partitioned output", async () => {
+    await expect(
+      db.copyToBuffer("t", { format: "csv", partitionBy: ["part"] } as any)
+    ).rejects.toThrow("partitioned output can not be written to a buffer");
+  });
+});
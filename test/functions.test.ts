@@ -0,0 +1,99 @@
+import { Database, IOError, Types } from "../src/duckdb-async";
+
+describe("defineFunction", () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = await Database.create(":memory:");
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  test("defines a typed function on a connection", async () => {
+    const conn = await db.connect();
+    await conn.defineFunction({
+      name: "repeat_str",
+      params: [Types.VARCHAR, Types.INTEGER],
+      returns: Types.VARCHAR,
+      fn: (s, n) => s.repeat(n),
+    });
+    expect(await conn.all("SELECT repeat_str('ab', 3) AS v")).toEqual([
+      { v: "ababab" },
+    ]);
+    await conn.close();
+  });
+
+  test("converts BIGINT results and propagates NULLs", async () => {
+    const conn = await db.connect();
+    await conn.defineFunction({
+      name: "twice",
+      params: [Types.BIGINT],
+      returns: Types.BIGINT,
+      fn: (x) => x * 2n,
+    });
+    await conn.defineFunction({
+      name: "is_missing",
+      params: [Types.INTEGER],
+      returns: Types.INTEGER,
+      nullHandling: "call",
+      fn: (x) => (x === null ? 1 : 0),
+    });
+    const rows = await conn.all(
+      "SELECT twice(v) AS t, is_missing(v::INTEGER) AS m FROM (VALUES (21::BIGINT), (NULL)) t(v)"
+    );
+    expect(rows).toEqual([
+      { t: 42n, m: 0 },
+      { t: null, m: 1 },
+    ]);
+    await conn.close();
+  });
+
+  test("Database functions are defined on existing and new connections", async () => {
+    const before = await db.connect();
+    await db.defineFunction({
+      name: "plus_one",
+      params: [Types.DOUBLE],
+      returns: Types.DOUBLE,
+      fn: (x) => x + 1,
+    });
+    const after = await db.connect();
+    for (const target of [db, before, after]) {
+      expect(await target.all("SELECT plus_one(1.5) AS v")).toEqual([
+        { v: 2.5 },
+      ]);
+    }
+    await expect(
+      db.defineFunction({
+        name: "plus_one",
+        params: [],
+        returns: Types.INTEGER,
+        fn: () => 1,
+      })
+    ).rejects.toThrow("function plus_one is already defined");
+
+    await db.removeFunction("plus_one");
+    await expect(after.all("SELECT plus_one(1.5)")).rejects.toThrow();
+    await before.close();
+    await after.close();
+  });
+
+  test("errors are reported with the function name", async () => {
+    await db.defineFunction({
+      name: "fails",
+      params: [Types.INTEGER],
+      returns: Types.INTEGER,
+      fn: () => {
+        throw new Error("no good");
+      },
+    });
+    const err = await db.all("SELECT fails(1)").catch((e) => e);
+    expect(err).toBeInstanceOf(IOError);
+    expect(err.message).toContain("function fails: no good");
+
+    await expect(db.all("SELECT fails(1, 2)")).rejects.toThrow(
+      "function fails: expected 1 arguments, got 2"
+    );
+  });
+});
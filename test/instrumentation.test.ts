@@ -0,0 +1,172 @@
+import {
+  Instrumentation,
+  QueryEndEvent,
+  QueryErrorEvent,
+  QueryStartEvent,
+  Span,
+  Tracer,
+} from "../src/instrumentation";
+import { queryContext } from "../src/query";
+
+class StubSpan implements Span {
+  attributes: Record<string, unknown> = {};
+  exceptions: Error[] = [];
+  status: { code: number; message?: string } | null = null;
+  ended = false;
+
+  constructor(readonly name: string, attributes: Record<string, unknown>) {
+    Object.assign(this.attributes, attributes);
+  }
+  setAttribute(key: string, value: string | number | boolean) {
+    this.attributes[key] = value;
+    return this;
+  }
+  recordException(exception: Error) {
+    this.exceptions.push(exception);
+  }
+  setStatus(status: { code: number; message?: string }) {
+    this.status = status;
+    return this;
+  }
+  end() {
+    this.ended = true;
+  }
+}
+
+class StubTracer implements Tracer {
+  spans: StubSpan[] = [];
+  startSpan(
+    name: string,
+    options?: { attributes?: Record<string, string | number | boolean> }
+  ) {
+    const span = new StubSpan(name, options?.attributes ?? {});
+    this.spans.push(span);
+    return span;
+  }
+}
+
+describe("Instrumentation", () => {
+  const context = {
+    method: "Connection.all",
+    sql: "SELECT * FROM t WHERE id = ?",
+    params: [1],
+  };
+
+  test("emits lifecycle events for successful queries", async () => {
+    const instrumentation = new Instrumentation();
+    const starts: QueryStartEvent[] = [];
+    const ends: QueryEndEvent[] = [];
+    instrumentation.on("queryStart", (e) => starts.push(e));
+    instrumentation.on("queryEnd", (e) => ends.push(e));
+
+    const rows = await instrumentation.trace(
+      context,
+      async () => [{ a: 1 }, { a: 2 }],
+      (result) => result.length
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(starts).toEqual([context]);
+    expect(ends).toHaveLength(1);
+    expect(ends[0]).toMatchObject({ ...context, rowCount: 2 });
+    expect(ends[0].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  test("emits queryError and rethrows", async () => {
+    const instrumentation = new Instrumentation();
+    const errors: QueryErrorEvent[] = [];
+    instrumentation.on("queryError", (e) => errors.push(e));
+    const failure = new Error("boom");
+
+    await expect(
+      instrumentation.trace(context, async () => {
+        throw failure;
+      })
+    ).rejects.toBe(failure);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].error).toBe(failure);
+  });
+
+  test("records spans and logs with the configured tracer and logger", async () => {
+    const instrumentation = new Instrumentation();
+    const tracer = new StubTracer();
+    const logger = { debug: jest.fn(), error: jest.fn() };
+    instrumentation.tracer = tracer;
+    instrumentation.logger = logger;
+
+    await instrumentation.trace(context, async () => [], (r) => r.length);
+    await instrumentation
+      .trace({ method: "Database.exec", sql: "bogus" }, async () => {
+        throw new Error("syntax error");
+      })
+      .catch(() => undefined);
+
+    const [ok, failed] = tracer.spans;
+    expect(ok.name).toBe("Connection.all");
+    expect(ok.attributes).toEqual({
+      "db.system": "duckdb",
+      "db.statement": context.sql,
+      "db.response.returned_rows": 0,
+    });
+    expect(ok.ended).toBe(true);
+    expect(ok.status).toBeNull();
+
+    expect(failed.exceptions[0].message).toBe("syntax error");
+    expect(failed.status?.code).toBe(2);
+    expect(failed.ended).toBe(true);
+
+    expect(logger.debug).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledTimes(1);
+  });
+
+  test("listener exceptions do not fail the query", async () => {
+    const instrumentation = new Instrumentation();
+    instrumentation.on("queryEnd", () => {
+      throw new Error("listener bug");
+    });
+    await expect(instrumentation.trace(context, async () => 42)).resolves.toBe(
+      42
+    );
+  });
+
+  test("reports redacted params of redacted contexts", async () => {
+    const instrumentation = new Instrumentation();
+    const events: (QueryStartEvent | QueryErrorEvent)[] = [];
+    instrumentation.on("queryStart", (e) => events.push(e));
+    instrumentation.on("queryError", (e) => events.push(e));
+    const redacted = queryContext(
+      context.method,
+      context.sql!,
+      context.params!,
+      true
+    );
+    await expect(
+      instrumentation.trace(redacted, async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(events.map((e) => e.params)).toEqual([
+      ["[redacted]"],
+      ["[redacted]"],
+    ]);
+    expect(context.params).toEqual([1]);
+  });
+
+  test("interrupts cancelled queries only when no others are running", async () => {
+    const instrumentation = new Instrumentation();
+    const interrupt = jest.fn();
+    instrumentation.set_interrupt_internal(interrupt);
+    const first = instrumentation.begin(context);
+    const second = instrumentation.begin(context);
+    expect(instrumentation.runningQueries).toBe(2);
+    instrumentation.interrupt_internal();
+    expect(interrupt).not.toHaveBeenCalled();
+    second.fail(new Error("cancelled"));
+    second.fail(new Error("cancelled"));
+    expect(instrumentation.runningQueries).toBe(1);
+    instrumentation.interrupt_internal();
+    expect(interrupt).toHaveBeenCalledTimes(1);
+    first.end();
+    expect(instrumentation.runningQueries).toBe(0);
+  });
+});
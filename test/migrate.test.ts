@@ -0,0 +1,124 @@
+import {
+  Database,
+  migrate,
+  Migration,
+  MigrationError,
+} from "../src/duckdb-async";
+
+const migrations: Migration[] = [
+  {
+    id: "1_create_t",
+    up: "CREATE TABLE t (a INTEGER);",
+    down: "DROP TABLE t;",
+  },
+  {
+    id: "2_insert",
+    up: "INSERT INTO t VALUES (1); INSERT INTO t VALUES (2);",
+    down: "DELETE FROM t;",
+  },
+  { id: "10_add_column", up: "ALTER TABLE t ADD COLUMN b TEXT;" },
+];
+
+describe("migrate", () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = await Database.create(":memory:");
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  test("applies pending migrations in order, once", async () => {
+    expect(await migrate(db, { migrations })).toEqual({
+      applied: ["1_create_t", "2_insert", "10_add_column"],
+      reverted: [],
+    });
+    expect(await db.all("SELECT a, b FROM t ORDER BY a")).toEqual([
+      { a: 1, b: null },
+      { a: 2, b: null },
+    ]);
+    expect(await migrate(db, { migrations })).toEqual({
+      applied: [],
+      reverted: [],
+    });
+    const applied = await db.all("SELECT id FROM _migrations ORDER BY id");
+    expect(applied).toHaveLength(3);
+  });
+
+  test("loads migrations from a directory", async () => {
+    const directory = "test/support/migrations";
+    const result = await migrate(db, { directory });
+    expect(result.applied).toEqual(["001_create_users", "002_add_email"]);
+    await db.run("INSERT INTO users VALUES (1, 'ann', 'ann@example.com')");
+
+    await migrate(db, { directory, direction: "down", to: "001_create_users" });
+    expect(await db.all("SELECT * FROM users")).toEqual([
+      { id: 1, name: "ann" },
+    ]);
+  });
+
+  test("applies up to a target, and dry-runs without changes", async () => {
+    expect(await migrate(db, { migrations, dryRun: true })).toEqual({
+      applied: ["1_create_t", "2_insert", "10_add_column"],
+      reverted: [],
+    });
+    await expect(db.all("SELECT * FROM t")).rejects.toThrow();
+
+    await migrate(db, { migrations, to: "2_insert" });
+    expect(await db.all("SELECT * FROM t ORDER BY a")).toEqual([
+      { a: 1 },
+      { a: 2 },
+    ]);
+  });
+
+  test("reverts the most recent migration", async () => {
+    await migrate(db, { migrations, to: "2_insert" });
+    expect(await migrate(db, { migrations, direction: "down" })).toEqual({
+      applied: [],
+      reverted: ["2_insert"],
+    });
+    expect(await db.all("SELECT * FROM t")).toEqual([]);
+
+    await migrate(db, { migrations });
+    await expect(
+      migrate(db, { migrations, direction: "down" })
+    ).rejects.toThrow('migration "10_add_column" has no down script');
+  });
+
+  test("rejects modified migrations", async () => {
+    await migrate(db, { migrations });
+    const modified = migrations.map((m) =>
+      m.id === "2_insert" ? { ...m, up: "INSERT INTO t VALUES (3);" } : m
+    );
+    const err = await migrate(db, { migrations: modified }).catch((e) => e);
+    expect(err).toBeInstanceOf(MigrationError);
+    expect(err.migration).toBe("2_insert");
+  });
+
+  test("rolls back a failed migration", async () => {
+    const failing = [
+      ...migrations,
+      { id: "11_broken", up: "INSERT INTO t VALUES (3); SELECT * FROM nope;" },
+    ];
+    await expect(migrate(db, { migrations: failing })).rejects.toThrow(
+      'migration "11_broken" failed'
+    );
+    expect(await db.all("SELECT a FROM t ORDER BY a")).toEqual([
+      { a: 1 },
+      { a: 2 },
+    ]);
+    const applied = await db.all("SELECT id FROM _migrations");
+    expect(applied).toHaveLength(3);
+  });
+
+  test("serializes concurrent runs", async () => {
+    const results = await Promise.all([
+      migrate(db, { migrations }),
+      migrate(db, { migrations }),
+    ]);
+    expect(results[0].applied).toHaveLength(3);
+    expect(results[1].applied).toEqual([]);
+  });
+});
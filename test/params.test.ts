@@ -0,0 +1,124 @@
+import { bindNamedParams, isNamedParams, parseSql } from "../src/params";
+import { StatementCache } from "../src/statement-cache";
+
+describe("parseSql", () => {
+  test("numbers named parameters, reusing numbers for repeated names", () => {
+    expect(
+      parseSql("test", "SELECT * FROM t WHERE a = $a AND b = $b OR a > $a")
+    ).toEqual({
+      text: "SELECT * FROM t WHERE a = $1 AND b = $2 OR a > $1",
+      names: ["a", "b"],
+      multipleStatements: false,
+    });
+  });
+
+  test("skips literals, quoted identifiers and comments", () => {
+    const text = `SELECT '$a', "$b", $$ $c $$, $t$ $d $t$ -- $e
+      /* $f; */ FROM t WHERE x = $g;`;
+    const parsed = parseSql("test", text);
+    expect(parsed.names).toEqual(["g"]);
+    expect(parsed.text).toEqual(text.replace("$g", "$1"));
+    expect(parsed.multipleStatements).toBe(false);
+  });
+
+  test("detects multiple statements", () => {
+    expect(parseSql("test", "SELECT 1; SELECT 2").multipleStatements).toBe(
+      true
+    );
+    expect(parseSql("test", "SELECT ';'; -- end").multipleStatements).toBe(
+      false
+    );
+  });
+
+  test("rejects mixing named and numbered parameters", () => {
+    expect(() => parseSql("test", "SELECT $1, $a")).toThrow(
+      "named and numbered parameters can not be mixed"
+    );
+  });
+});
+
+describe("named parameter binding", () => {
+  test("recognizes plain objects only", () => {
+    expect(isNamedParams([{ a: 1 }])).toBe(true);
+    expect(isNamedParams([Object.create(null)])).toBe(true);
+    expect(isNamedParams([new Date()])).toBe(false);
+    expect(isNamedParams([[1]])).toBe(false);
+    expect(isNamedParams([{ a: 1 }, 2])).toBe(false);
+  });
+
+  test("orders values by name", () => {
+    expect(bindNamedParams("test", ["b", "a"], { a: 1, b: 2 })).toEqual([
+      2, 1,
+    ]);
+    expect(() => bindNamedParams("test", ["a"], {})).toThrow(
+      "missing value for parameter $a"
+    );
+  });
+});
+
+describe("StatementCache", () => {
+  test("evicts and finalizes the least recently used statement", async () => {
+    const finalized: string[] = [];
+    const cache = new StatementCache<string>(2, async (stmt) => {
+      finalized.push(stmt);
+    });
+    const use = (sql: string) =>
+      cache.use(
+        sql,
+        async () => sql,
+        async (stmt) => stmt
+      );
+
+    await use("a");
+    await use("b");
+    await use("a");
+    await use("c");
+    expect(finalized).toEqual(["b"]);
+    expect(cache.has("a")).toBe(true);
+
+    await cache.clear();
+    expect(finalized.sort()).toEqual(["a", "b", "c"]);
+    expect(cache.size).toBe(0);
+  });
+
+  test("finalizes a statement evicted while in use once it is released", async () => {
+    const finalized: string[] = [];
+    const cache = new StatementCache<string>(1, async (stmt) => {
+      finalized.push(stmt);
+    });
+    let release!: () => void;
+    const inUse = cache.use(
+      "a",
+      async () => "a",
+      (stmt) =>
+        new Promise<string>((resolve) => {
+          release = () => resolve(stmt);
+        })
+    );
+    await cache.use(
+      "b",
+      async () => "b",
+      async (stmt) => stmt
+    );
+    expect(finalized).toEqual([]);
+    release();
+    expect(await inUse).toBe("a");
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(finalized).toEqual(["a"]);
+  });
+
+  test("does not cache statements that fail to prepare", async () => {
+    const cache = new StatementCache<string>(2, async () => undefined);
+    await expect(
+      cache.use(
+        "bad",
+        async () => {
+          throw new Error("syntax");
+        },
+        async (stmt) => stmt
+      )
+    ).rejects.toThrow("syntax");
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(cache.has("bad")).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+import { ConnectionPool, Database } from "../src/duckdb-async";
+
+describe("ConnectionPool", () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = await Database.create(":memory:");
+  });
+
+  afterEach(async () => {
+    try {
+      await db.close();
+    } catch {
+      // already closed by the test
+    }
+  });
+
+  test("opens min connections and reuses released ones", async () => {
+    const pool = await ConnectionPool.create(db, { min: 2, max: 4 });
+    expect(pool.size).toBe(2);
+    expect(pool.idleCount).toBe(2);
+
+    const conn = await pool.acquire();
+    expect(pool.inUseCount).toBe(1);
+    pool.release(conn);
+    expect(await pool.acquire()).toBe(conn);
+    pool.release(conn);
+    expect(pool.size).toBe(2);
+  });
+
+  test("use() releases the connection when the callback throws", async () => {
+    const pool = await db.createPool({ max: 1 });
+    await expect(
+      pool.use(async () => {
+        throw new Error("boom");
+      })
+    ).rejects.toThrow("boom");
+    expect(pool.inUseCount).toBe(0);
+
+    const rows = await pool.use((conn) => conn.all("SELECT 42 AS a"));
+    expect(rows).toEqual([{ a: 42 }]);
+  });
+
+  test("acquire waits for a release and times out", async () => {
+    const pool = await db.createPool({ max: 1, acquireTimeoutMs: 50 });
+    const conn = await pool.acquire();
+
+    await expect(pool.acquire()).rejects.toThrow("timed out after 50ms");
+
+    const waiting = pool.acquire();
+    pool.release(conn);
+    expect(await waiting).toBe(conn);
+    pool.release(conn);
+  });
+
+  test("evicts idle connections above min", async () => {
+    const pool = await db.createPool({ min: 1, max: 3, idleTimeoutMs: 20 });
+    const conns = await Promise.all([pool.acquire(), pool.acquire()]);
+    conns.forEach((conn) => pool.release(conn));
+    expect(pool.size).toBe(2);
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(pool.size).toBe(1);
+  });
+
+  test("Database.close waits for in-flight work", async () => {
+    const pool = await db.createPool({ max: 2 });
+    let finished = false;
+    const work = pool.use(async (conn) => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await conn.all("SELECT 1");
+      finished = true;
+    });
+    // let use() acquire its connection before closing
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await db.close();
+    expect(finished).toBe(true);
+    await work;
+    await expect(pool.acquire()).rejects.toThrow("pool is draining");
+  });
+});
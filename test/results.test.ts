@@ -0,0 +1,31 @@
+import { toColumnar } from "../src/results";
+
+describe("toColumnar", () => {
+  const columns = [
+    { name: "id", type: { id: "INTEGER", sql_type: "INTEGER" } },
+    { name: "name", type: { id: "VARCHAR", sql_type: "VARCHAR" } },
+  ];
+
+  test("collects the values of each column in row order", () => {
+    const result = toColumnar({
+      rows: [
+        { id: 1, name: "a" },
+        { id: 2, name: null },
+      ],
+      columns,
+      rowCount: 2,
+      elapsedMs: 1.5,
+    });
+    expect(result).toEqual({
+      columns,
+      values: { id: [1, 2], name: ["a", null] },
+      rowCount: 2,
+      elapsedMs: 1.5,
+    });
+  });
+
+  test("has an empty array per column when there are no rows", () => {
+    const result = toColumnar({ rows: [], columns, rowCount: 0, elapsedMs: 0 });
+    expect(result.values).toEqual({ id: [], name: [] });
+  });
+});
@@ -0,0 +1,60 @@
+import { configRecord } from "../src/settings";
+
+describe("configRecord", () => {
+  test("converts typed options to strings", () => {
+    expect(
+      configRecord("Database.create", {
+        access_mode: "read_only",
+        threads: 4,
+        allow_unsigned_extensions: true,
+        memory_limit: undefined,
+      })
+    ).toEqual({
+      access_mode: "read_only",
+      threads: "4",
+      allow_unsigned_extensions: "true",
+    });
+  });
+
+  test("accepts strings, aliases and unchecked options", () => {
+    expect(
+      configRecord(
+        "Database.create",
+        { access_mode: "READ_WRITE", max_memory: "512MB", threads: "4" },
+        { checkpoint_threshold: "1GB", http_retries: 5 }
+      )
+    ).toEqual({
+      access_mode: "READ_WRITE",
+      max_memory: "512MB",
+      threads: "4",
+      checkpoint_threshold: "1GB",
+      http_retries: "5",
+    });
+  });
+
+  test("rejects unknown options, suggesting the closest known one", () => {
+    expect(() =>
+      configRecord("Database.create", { memory_limt: "1GB" })
+    ).toThrow(
+      'Database.create: unknown configuration option "memory_limt" (did you mean "memory_limit"?)'
+    );
+    expect(() => configRecord("Database.create", { xyz: "1" })).toThrow(
+      /unknown configuration option "xyz"; pass/
+    );
+  });
+
+  test("rejects invalid values", () => {
+    expect(() => configRecord("Database.create", { threads: 1.5 })).toThrow(
+      'Database.create: invalid value 1.5 for "threads", expected a positive integer'
+    );
+    expect(() =>
+      configRecord("Database.create", { enable_external_access: "yes" })
+    ).toThrow("expected a boolean");
+    expect(() =>
+      configRecord("Database.create", { access_mode: "write" })
+    ).toThrow('expected "automatic" or "read_only" or "read_write"');
+    expect(() =>
+      configRecord("Database.create", { temp_directory: "" })
+    ).toThrow("expected a non-empty string");
+  });
+});
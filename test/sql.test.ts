@@ -0,0 +1,54 @@
+import { sql, SqlQuery } from "../src/sql";
+
+describe("sql template tag", () => {
+  test("interpolated values become positional parameters", () => {
+    const id = 42;
+    const name = "Robert'); DROP TABLE students;--";
+    const query = sql`SELECT * FROM t WHERE id = ${id} AND name = ${name}`;
+    expect(query).toBeInstanceOf(SqlQuery);
+    expect(query.text).toBe("SELECT * FROM t WHERE id = ? AND name = ?");
+    expect(query.values).toEqual([id, name]);
+  });
+
+  test("fragments compose with their parameters", () => {
+    const filter = sql`price > ${10} AND qty < ${5}`;
+    const query = sql`SELECT * FROM t WHERE ${filter} LIMIT ${100}`;
+    expect(query.text).toBe(
+      "SELECT * FROM t WHERE price > ? AND qty < ? LIMIT ?"
+    );
+    expect(query.values).toEqual([10, 5, 100]);
+  });
+
+  test("sql.identifier quotes and escapes identifiers", () => {
+    expect(sql.identifier("users").text).toBe('"users"');
+    expect(sql.identifier('we"ird').text).toBe('"we""ird"');
+    expect(sql.identifier(["main", "users"]).text).toBe('"main"."users"');
+    expect(sql.identifier("users").values).toEqual([]);
+    expect(() => sql.identifier([])).toThrow("must not be empty");
+
+    const query = sql`SELECT ${sql.identifier("col")} FROM t`;
+    expect(query.text).toBe('SELECT "col" FROM t');
+  });
+
+  test("sql.literal quotes and escapes strings", () => {
+    expect(sql.literal("it's").text).toBe("'it''s'");
+    expect(sql.literal(4).text).toBe("4");
+    expect(sql.literal(false).text).toBe("false");
+    expect(sql.literal("x").values).toEqual([]);
+    expect(() => sql.literal(NaN)).toThrow(
+      "sql.literal: NaN has no SQL literal"
+    );
+  });
+
+  test("sql.join builds IN-lists and custom separators", () => {
+    const query = sql`SELECT * FROM t WHERE id IN (${sql.join([1, 2, 3])})`;
+    expect(query.text).toBe("SELECT * FROM t WHERE id IN (?, ?, ?)");
+    expect(query.values).toEqual([1, 2, 3]);
+
+    const conds = sql.join([sql`a = ${1}`, sql`b = ${2}`], sql` AND `);
+    expect(conds.text).toBe("a = ? AND b = ?");
+    expect(conds.values).toEqual([1, 2]);
+
+    expect(sql.join([]).text).toBe("");
+  });
+});
@@ -0,0 +1,112 @@
+import { Database, QueryCancelledError, sql } from "../src/duckdb-async";
+import { Readable } from "stream";
+import { ReadableStream } from "stream/web";
+
+async function readAll(stream: Readable): Promise<string> {
+  let text = "";
+  for await (const chunk of stream) {
+    text += chunk.toString();
+  }
+  return text;
+}
+
+async function readWebStream(
+  stream: ReadableStream<Uint8Array>
+): Promise<string> {
+  const reader = stream.getReader();
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text;
+    }
+    text += Buffer.from(value).toString();
+  }
+}
+
+describe("toStream", () => {
+  let db: Database;
+
+  beforeAll(async () => {
+    db = await Database.create(":memory:");
+    await db.exec(`
+      CREATE TABLE t (id INTEGER, name VARCHAR, big HUGEINT, at TIMESTAMP);
+      INSERT INTO t VALUES
+        (1, 'plain', 170141183460469231731687303715884105727, '2024-01-02 03:04:05'),
+        (2, 'has "quotes", commas', NULL, NULL);
+    `);
+  });
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  test("exports CSV with a header row", async () => {
+    const stream = db.toStream("SELECT * FROM t ORDER BY id", {
+      format: "csv",
+    });
+    expect(await readAll(stream)).toEqual(
+      "id,name,big,at\n" +
+        "1,plain,170141183460469231731687303715884105727,2024-01-02T03:04:05.000Z\n" +
+        '2,"has ""quotes"", commas",,\n'
+    );
+  });
+
+  test("exports NDJSON, binding sql template values", async () => {
+    const conn = await db.connect();
+    const stream = conn.toStream(sql`SELECT id, big FROM t WHERE id = ${1}`, {
+      format: "ndjson",
+    });
+    expect(await readAll(stream)).toEqual(
+      '{"id":1,"big":"170141183460469231731687303715884105727"}\n'
+    );
+    await conn.close();
+  });
+
+  test("exports CSV headers for empty results", async () => {
+    const stream = db.toStream("SELECT id, name FROM t WHERE false", {
+      format: "csv",
+      delimiter: ";",
+    });
+    expect(await readAll(stream)).toEqual("id;name\n");
+  });
+
+  test("errors are raised from the stream", async () => {
+    const stream = db.toStream("SELECT * FROM missing", { format: "ndjson" });
+    await expect(readAll(stream)).rejects.toThrow("missing");
+  });
+
+  test("signal and timeoutMs apply to every format", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    for (const format of ["csv", "ndjson", "arrow"] as const) {
+      const stream = db.toStream("SELECT 1 AS a", {
+        format,
+        signal: controller.signal,
+      });
+      await expect(readAll(stream)).rejects.toBeInstanceOf(QueryCancelledError);
+    }
+  });
+
+  test("toWebStream returns a web ReadableStream", async () => {
+    const stream = db.toWebStream("SELECT 42 AS a", { format: "ndjson" });
+    expect(await readWebStream(stream)).toEqual('{"a":42}\n');
+  });
+
+  test("exports the Arrow IPC stream format", async () => {
+    try {
+      await db.exec("INSTALL arrow; LOAD arrow");
+    } catch {
+      // the arrow extension can not be installed offline
+      return;
+    }
+    const query = "SELECT id, name FROM t ORDER BY id";
+    const chunks: Buffer[] = [];
+    for await (const chunk of db.toStream(query, { format: "arrow" })) {
+      chunks.push(Buffer.from(chunk));
+    }
+    const bytes = Buffer.concat(chunks);
+    expect(bytes).toEqual(Buffer.concat(await db.arrowIPCAll(query)));
+    expect(bytes.subarray(-4)).toEqual(Buffer.from([0, 0, 0, 0]));
+  });
+});
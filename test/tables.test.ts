@@ -0,0 +1,168 @@
+import { Database, DuckDbAsyncError } from "../src/duckdb-async";
+import { checkColumnType, inferSchema } from "../src/tables";
+
+describe("inferSchema", () => {
+  test("infers column types from values", () => {
+    expect(
+      inferSchema("registerTable", [
+        { id: 1, name: "a", score: 1, tags: ["x"], at: new Date(0) },
+        { id: 2, name: null, score: 1.5, big: 10n, ok: true },
+      ])
+    ).toEqual({
+      id: "INTEGER",
+      name: "VARCHAR",
+      score: "DOUBLE",
+      tags: "JSON",
+      at: "TIMESTAMP",
+      big: "HUGEINT",
+      ok: "BOOLEAN",
+    });
+  });
+
+  test("rejects conflicting types and empty tables", () => {
+    expect(() =>
+      inferSchema("registerTable", [{ id: 1 }, { id: "2" }])
+    ).toThrow('column "id" has values of types INTEGER and VARCHAR');
+    expect(() => inferSchema("registerTable", [])).toThrow(DuckDbAsyncError);
+  });
+
+  test("widens integers beyond 32 bits to BIGINT", () => {
+    expect(
+      inferSchema("registerTable", [
+        { a: 1, b: 1, c: 2 ** 31 },
+        { a: 2 ** 31, b: 0.5, c: 2 ** 53 },
+      ])
+    ).toEqual({ a: "BIGINT", b: "DOUBLE", c: "DOUBLE" });
+  });
+});
+
+describe("checkColumnType", () => {
+  test("accepts SQL types", () => {
+    for (const type of [
+      "INTEGER",
+      "decimal(18, 3)",
+      "DOUBLE PRECISION",
+      "TIMESTAMP WITH TIME ZONE",
+      "VARCHAR[]",
+      "INTEGER[3][]",
+      "STRUCT(a INTEGER, \"b c\" VARCHAR[])",
+      "MAP(VARCHAR, STRUCT(x DOUBLE))",
+      "ENUM('a', 'it''s')",
+      'main."my type"',
+    ]) {
+      expect(() => checkColumnType("registerTable", "c", type)).not.toThrow();
+    }
+  });
+
+  test("rejects anything else", () => {
+    for (const type of [
+      "",
+      "INTEGER); DROP TABLE users; --",
+      "INTEGER, other VARCHAR",
+      "INTEGER DEFAULT 1",
+      "VARCHAR /* comment */",
+      "DECIMAL((SELECT 1))",
+      "STRUCT(a INTEGER",
+    ]) {
+      expect(() => checkColumnType("registerTable", "c", type)).toThrow(
+        `registerTable: invalid type ${JSON.stringify(type)} of column "c"`
+      );
+    }
+  });
+});
+
+describe("registerTable", () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = await Database.create(":memory:");
+    await db.exec(
+      "CREATE TABLE users (id INTEGER, name VARCHAR); " +
+        "INSERT INTO users VALUES (1, 'ann'), (2, 'bob')"
+    );
+  });
+
+  afterEach(async () => {
+    if (!db.closed) {
+      await db.close();
+    }
+  });
+
+  test("joins registered rows with tables", async () => {
+    const conn = await db.connect();
+    const count = await conn.registerTable("scores", [
+      { user_id: 1, score: 10.5 },
+      { user_id: 2, score: 7 },
+    ]);
+    expect(count).toEqual(2);
+    const rows = await conn.all(
+      "SELECT name, score FROM users JOIN scores ON id = user_id ORDER BY id"
+    );
+    expect(rows).toEqual([
+      { name: "ann", score: 10.5 },
+      { name: "bob", score: 7 },
+    ]);
+  });
+
+  test("registers async iterables with a schema", async () => {
+    async function* generate() {
+      for (let i = 0; i < 5; i++) {
+        yield { id: i, label: `row ${i}` };
+      }
+    }
+    const conn = await db.connect();
+    await conn.registerTable("gen", generate(), {
+      schema: { id: "INTEGER", label: "VARCHAR" },
+      batchSize: 2,
+    });
+    const rows = await conn.all("SELECT count(*)::INTEGER AS n FROM gen");
+    expect(rows).toEqual([{ n: 5 }]);
+  });
+
+  test("infers the schema of async iterables from the first batch", async () => {
+    async function* generate() {
+      for (let i = 0; i < 5; i++) {
+        yield { id: i };
+      }
+    }
+    await db.registerTable("gen", generate(), { batchSize: 2 });
+    const rows = await db.all("SELECT sum(id)::INTEGER AS total FROM gen");
+    expect(rows).toEqual([{ total: 10 }]);
+  });
+
+  test("unregisterTable drops the table, closing the connection too", async () => {
+    const conn = await db.connect();
+    await conn.registerTable("t", [{ a: 1 }]);
+    await conn.unregisterTable("t");
+    await expect(conn.all("SELECT * FROM t")).rejects.toThrow();
+
+    await conn.registerTable("t", [{ a: 1 }]);
+    await conn.close();
+    const other = await db.connect();
+    await expect(other.all("SELECT * FROM t")).rejects.toThrow();
+  });
+
+  test("rejects invalid column types", async () => {
+    const conn = await db.connect();
+    await expect(
+      conn.registerTable("t", [{ a: 1 }], {
+        schema: { a: "INTEGER); DROP TABLE users; --" },
+      })
+    ).rejects.toThrow('invalid type "INTEGER); DROP TABLE users; --"');
+    expect(await conn.all("SELECT count(*)::INTEGER AS n FROM users")).toEqual([
+      { n: 2 },
+    ]);
+    await conn.close();
+  });
+
+  test("drops the table when inserting the rows fails", async () => {
+    const conn = await db.connect();
+    await conn.registerTable("t", [{ a: 1 }]);
+    await expect(
+      conn.registerTable("t", [{ a: "one" }], { schema: { a: "INTEGER" } })
+    ).rejects.toThrow();
+    await expect(conn.all("SELECT * FROM t")).rejects.toThrow();
+    await conn.unregisterTable("t");
+    await conn.close();
+  });
+});
@@ -0,0 +1,128 @@
+import { Database } from "../src/duckdb-async";
+import { generateTypes, typeScriptType } from "../src/typegen";
+
+describe("typeScriptType", () => {
+  test("maps scalar types", () => {
+    expect(typeScriptType({ id: "INTEGER", sql_type: "INTEGER" })).toEqual(
+      "number"
+    );
+    expect(typeScriptType({ id: "BIGINT", sql_type: "BIGINT" })).toEqual(
+      "bigint"
+    );
+    expect(
+      typeScriptType({
+        id: "DECIMAL",
+        sql_type: "DECIMAL(10,2)",
+        width: 10,
+        scale: 2,
+      })
+    ).toEqual("number");
+    expect(
+      typeScriptType({
+        id: "TIMESTAMP WITH TIME ZONE",
+        sql_type: "TIMESTAMP WITH TIME ZONE",
+      })
+    ).toEqual("Date");
+    expect(typeScriptType({ id: "BLOB", sql_type: "BLOB" })).toEqual("Buffer");
+    expect(
+      typeScriptType({ id: "MAP", sql_type: "MAP(VARCHAR, INTEGER)" } as any)
+    ).toEqual("string");
+  });
+
+  test("maps nested and enum types", () => {
+    expect(
+      typeScriptType({
+        id: "STRUCT",
+        sql_type: 'STRUCT(a INTEGER, "b c" VARCHAR[])',
+        children: [
+          { name: "a", type: { id: "INTEGER", sql_type: "INTEGER" } },
+          {
+            name: "b c",
+            type: {
+              id: "LIST",
+              sql_type: "VARCHAR[]",
+              child: { id: "VARCHAR", sql_type: "VARCHAR" },
+            },
+          },
+        ],
+      })
+    ).toEqual('{ a: number | null; "b c": Array<string | null> | null }');
+    expect(
+      typeScriptType({
+        id: "ENUM",
+        sql_type: "mood",
+        name: "mood",
+        values: ["sad", "happy"],
+      })
+    ).toEqual('"sad" | "happy"');
+  });
+
+  test("follows the type mapping", () => {
+    const mapping = {
+      bigint: "string",
+      decimal: "string",
+      timestamp: "string",
+      converters: { UUID: (value: string) => value },
+    } as const;
+    expect(
+      typeScriptType({ id: "HUGEINT", sql_type: "HUGEINT" }, mapping)
+    ).toEqual("string");
+    expect(
+      typeScriptType(
+        { id: "DECIMAL", sql_type: "DECIMAL(4,1)", width: 4, scale: 1 },
+        mapping
+      )
+    ).toEqual("string");
+    expect(
+      typeScriptType({ id: "TIMESTAMP", sql_type: "TIMESTAMP" }, mapping)
+    ).toEqual("string");
+    expect(typeScriptType({ id: "UUID", sql_type: "UUID" }, mapping)).toEqual(
+      "unknown"
+    );
+  });
+});
+
+describe("generateTypes", () => {
+  test("generates interfaces for tables and views", async () => {
+    const db = await Database.create(":memory:", {
+      types: { bigint: "number" },
+    });
+    await db.exec(`
+      CREATE TYPE mood AS ENUM ('sad', 'happy');
+      CREATE TABLE order_items (
+        id BIGINT NOT NULL,
+        "unit price" DECIMAL(10, 2),
+        feeling mood,
+        attrs MAP(VARCHAR, INTEGER)
+      );
+      CREATE SCHEMA app;
+      CREATE VIEW app.totals AS SELECT id, sum("unit price") AS total
+        FROM order_items GROUP BY id;
+    `);
+    const source = await generateTypes(db);
+    await db.close();
+    expect(source).toContain("export interface OrderItems {");
+    expect(source).toContain("  id: number; // BIGINT");
+    expect(source).toContain('  "unit price": number | null; // DECIMAL(10,2)');
+    expect(source).toContain('  feeling: "sad" | "happy" | null;');
+    expect(source).toContain(
+      "  attrs: string | null; // MAP(VARCHAR, INTEGER)"
+    );
+    expect(source).toContain("export interface AppTotals {");
+  });
+
+  test("prefixes tables of attached databases with their name", async () => {
+    const db = await Database.create(":memory:");
+    await db.attach(":memory:", { alias: "other" });
+    await db.exec(`
+      CREATE TABLE users (id INTEGER);
+      CREATE TABLE other.users (id INTEGER);
+      CREATE TABLE other_users (id INTEGER);
+    `);
+    const source = await generateTypes(db);
+    await db.close();
+    const names = source.match(/(?<=export interface )\w+/g);
+    expect(names?.sort()).toEqual(["OtherUsers", "OtherUsers2", "Users"]);
+    expect(source).toContain("/** A row of table other.main.users. */");
+  });
+});
@@ -0,0 +1,154 @@
+import * as duckdb from "duckdb";
+import {
+  Database,
+  DatabaseClosedError,
+  QueryError,
+  sql,
+  Types,
+} from "../src/duckdb-async";
+
+describe("worker mode", () => {
+  let db: Database;
+
+  beforeEach(async () => {
+    db = await Database.create(":memory:", { mode: "worker" });
+  });
+
+  afterEach(async () => {
+    if (!db.closed) {
+      await db.close();
+    }
+  });
+
+  test("runs queries on the worker thread", async () => {
+    await db.exec("CREATE TABLE t (id INTEGER, name VARCHAR)");
+    await db.exec("INSERT INTO t VALUES (?, ?), (?, ?)", 1, "a", 2, "b");
+    const id = 2;
+    expect(await db.all(sql`SELECT name FROM t WHERE id = ${id}`)).toEqual([
+      { name: "b" },
+    ]);
+    const { columns, rowCount } = await db.allWithMetadata(
+      "SELECT * FROM t"
+    );
+    expect(rowCount).toBe(2);
+    expect(columns.map((column) => column.name)).toEqual(["id", "name"]);
+  });
+
+  test("returns the values of the DuckDb NodeJS API", async () => {
+    const [row] = await db.all(
+      "SELECT 1::TINYINT AS tiny, 2::BIGINT AS big, 3::HUGEINT AS huge, " +
+        "1.5::DOUBLE AS d, 'x' AS s, '\\xAA'::BLOB AS b, " +
+        "DATE '2024-01-02' AS day, TIMESTAMP '2024-01-02 03:04:05' AS at, " +
+        "[1, NULL] AS list, {'a': 1} AS struct, NULL AS nothing, " +
+        "'1 day'::INTERVAL AS span, '12:00:00'::TIME AS time"
+    );
+    expect(row).toEqual({
+      tiny: 1,
+      big: 2n,
+      huge: 3n,
+      d: 1.5,
+      s: "x",
+      b: Buffer.from([0xaa]),
+      day: new Date(Date.UTC(2024, 0, 2)),
+      at: new Date(Date.UTC(2024, 0, 2, 3, 4, 5)),
+      list: [1, null],
+      struct: { a: 1 },
+      nothing: null,
+      span: { months: 0, days: 1, micros: 0 },
+      time: "12:00:00",
+    });
+  });
+
+  test("prepares statements on connections", async () => {
+    const conn = await db.connect();
+    await conn.exec("CREATE TABLE t AS SELECT range AS id FROM range(5)");
+    const stmt = await conn.prepare<[number], { id: bigint }>(
+      "SELECT id FROM t WHERE id < ? ORDER BY id"
+    );
+    expect(stmt.columns().map((column) => column.name)).toEqual(["id"]);
+    expect(await stmt.all(2)).toEqual([{ id: BigInt(0) }, { id: BigInt(1) }]);
+    await conn.close();
+    expect(stmt.closed).toBe(true);
+  });
+
+  test("streams, iterates and runs transactions", async () => {
+    const conn = await db.connect();
+    await conn.transaction(async (tx) => {
+      await tx.exec("CREATE TABLE t AS SELECT range AS id FROM range(3000)");
+    });
+    let count = 0;
+    for await (const chunk of conn.iterateChunks("SELECT * FROM t")) {
+      count += chunk.length;
+    }
+    expect(count).toBe(3000);
+    const seen: unknown[] = [];
+    await new Promise<void>((resolve, reject) =>
+      conn.each(
+        "SELECT id FROM t WHERE id < 3 ORDER BY id",
+        (err: unknown, row: duckdb.RowData) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          seen.push(row.id);
+          if (seen.length === 3) {
+            resolve();
+          }
+        }
+      )
+    );
+    expect(seen).toEqual([0n, 1n, 2n]);
+    await conn.close();
+  });
+
+  test("inserts and registers JavaScript rows", async () => {
+    const conn = await db.connect();
+    await conn.exec("CREATE TABLE t (id INTEGER, name VARCHAR)");
+    await conn.insertMany("t", [
+      { id: 1, name: "a" },
+      { id: 2, name: "b" },
+    ]);
+    await conn.registerTable("names", [{ id: 2, label: "two" }]);
+    expect(
+      await conn.all("SELECT name, label FROM t JOIN names USING (id)")
+    ).toEqual([{ name: "b", label: "two" }]);
+    await conn.close();
+  });
+
+  test("applies the type mapping", async () => {
+    await db.close();
+    db = await Database.create(":memory:", {
+      mode: "worker",
+      types: { bigint: "number" },
+    });
+    expect(await db.all("SELECT 42::BIGINT AS a")).toEqual([{ a: 42 }]);
+  });
+
+  test("reports DuckDb errors as QueryErrors", async () => {
+    await expect(db.all("SELECT * FROM missing")).rejects.toBeInstanceOf(
+      QueryError
+    );
+  });
+
+  test("rejects queries after close", async () => {
+    await db.close();
+    await expect(db.all("SELECT 1")).rejects.toBeInstanceOf(
+      DatabaseClosedError
+    );
+  });
+
+  test("rejects user defined functions", async () => {
+    const conn = await db.connect();
+    await expect(
+      conn.defineFunction({
+        name: "twice",
+        params: [Types.INTEGER],
+        returns: Types.INTEGER,
+        fn: (n) => 2 * n,
+      })
+    ).rejects.toThrow(
+      "user defined functions are not supported in worker mode"
+    );
+    await conn.close();
+  });
+});
@@ -0,0 +1,216 @@
+import { Connection, Database, DuckDbAsyncError } from "../src/duckdb-async";
+import { isSessionStatement, isWriteStatement } from "../src/write-queue";
+
+describe("isWriteStatement", () => {
+  test("recognizes statements that modify data or the schema", () => {
+    expect(isWriteStatement("INSERT INTO t VALUES (1)")).toBe(true);
+    expect(isWriteStatement("  -- comment\n create table t (a int)")).toBe(
+      true
+    );
+    expect(
+      isWriteStatement("WITH x AS (SELECT 1) INSERT INTO t SELECT * FROM x")
+    ).toBe(true);
+    expect(isWriteStatement("SELECT 1; UPDATE t SET a = 2")).toBe(true);
+    expect(isWriteStatement("COPY t FROM 'data.csv'")).toBe(true);
+    expect(isWriteStatement("COPY t (a, b) FROM 'data.csv'")).toBe(true);
+    expect(isWriteStatement("COPY FROM DATABASE a TO b")).toBe(true);
+  });
+
+  test("ignores queries, session statements, strings and comments", () => {
+    expect(isWriteStatement("SELECT 'INSERT' AS \"DELETE\"")).toBe(false);
+    expect(isWriteStatement("/* DROP TABLE t; */ SELECT 1")).toBe(false);
+    expect(isWriteStatement("WITH x AS (SELECT 1) SELECT * FROM x")).toBe(
+      false
+    );
+    expect(isWriteStatement("SET threads = 2; USE memory; BEGIN")).toBe(false);
+    expect(isWriteStatement("SELECT $$; DROP TABLE t$$")).toBe(false);
+    expect(isWriteStatement("COPY t TO 'out.csv'")).toBe(false);
+    expect(
+      isWriteStatement("COPY (SELECT * FROM t) TO 'out.csv' (HEADER)")
+    ).toBe(false);
+  });
+});
+
+describe("isSessionStatement", () => {
+  test("recognizes statements that only affect their connection", () => {
+    expect(isSessionStatement("BEGIN TRANSACTION")).toBe(true);
+    expect(isSessionStatement("INSERT INTO t VALUES (1); COMMIT")).toBe(true);
+    expect(isSessionStatement("SET threads = 2")).toBe(true);
+    expect(isSessionStatement("use memory")).toBe(true);
+    expect(isSessionStatement("CREATE OR REPLACE TEMP TABLE t (a INT)")).toBe(
+      true
+    );
+    expect(isSessionStatement("CREATE TEMPORARY VIEW v AS SELECT 1")).toBe(
+      true
+    );
+  });
+
+  test("ignores global settings, other writes and queries", () => {
+    expect(isSessionStatement("SET GLOBAL threads = 2")).toBe(false);
+    expect(isSessionStatement("CREATE TABLE t AS SELECT 1 AS temp")).toBe(
+      false
+    );
+    expect(isSessionStatement("SELECT 'BEGIN' AS \"SET\"")).toBe(false);
+  });
+});
+
+describe("Database.write", () => {
+  let db: Database;
+
+  afterEach(async () => {
+    if (!db.closed) {
+      await db.close();
+    }
+  });
+
+  test("runs writes one at a time in FIFO order", async () => {
+    db = await Database.create(":memory:");
+    await db.exec("CREATE TABLE log (n INTEGER)");
+    const order: number[] = [];
+    const connections = new Set<Connection>();
+    await Promise.all(
+      [1, 2, 3].map((n) =>
+        db.write(async (conn) => {
+          connections.add(conn);
+          order.push(n);
+          await new Promise((resolve) => setTimeout(resolve, 10 * (4 - n)));
+          await conn.run("INSERT INTO log VALUES (?)", n);
+          order.push(-n);
+        })
+      )
+    );
+    expect(order).toEqual([1, -1, 2, -2, 3, -3]);
+    expect(connections.size).toBe(1);
+    expect(await db.all("SELECT n FROM log ORDER BY n")).toEqual([
+      { n: 1 },
+      { n: 2 },
+      { n: 3 },
+    ]);
+  });
+
+  test("continues after a failed write", async () => {
+    db = await Database.create(":memory:");
+    const failed = db.write(async () => {
+      throw new Error("boom");
+    });
+    const next = db.write(async (conn) => conn.all("SELECT 42 AS a"));
+    await expect(failed).rejects.toThrow("boom");
+    expect(await next).toEqual([{ a: 42 }]);
+  });
+
+  test("routes mutating statements with the writeQueue option", async () => {
+    db = await Database.create(":memory:", { writeQueue: true });
+    const write = jest.spyOn(db, "write");
+    await db.exec("CREATE TABLE t (a INTEGER)");
+    await db.run("INSERT INTO t VALUES (?)", 1);
+    expect(await db.all("SELECT a FROM t")).toEqual([{ a: 1 }]);
+    expect(write).toHaveBeenCalledTimes(2);
+  });
+
+  test("runs writes queued from within a write right away", async () => {
+    db = await Database.create(":memory:", { writeQueue: true });
+    await db.exec("CREATE TABLE t (a INTEGER)");
+    await db.write(async (conn) => {
+      await db.run("INSERT INTO t VALUES (1)");
+      await db.write((inner) => {
+        expect(inner).toBe(conn);
+        return inner.run("INSERT INTO t VALUES (2)");
+      });
+    });
+    expect(await db.all("SELECT a FROM t ORDER BY a")).toEqual([
+      { a: 1 },
+      { a: 2 },
+    ]);
+  });
+
+  test("keeps prepared writes and bulk inserts on the write connection", async () => {
+    db = await Database.create(":memory:", { writeQueue: true });
+    let writeConn: Connection | undefined;
+    await db.write(async (conn) => {
+      writeConn = conn;
+    });
+    await db.exec("CREATE TABLE t (a INTEGER)");
+    const insert = await db.prepare("INSERT INTO t VALUES (?)");
+    await insert.run(1);
+    expect(await db.insertMany("t", [{ a: 2 }, { a: 3 }])).toBe(2);
+    const appender = db.createAppender("t");
+    await appender.append({ a: 4 });
+    await appender.close();
+    expect(await db.all("SELECT a FROM t ORDER BY a")).toEqual([
+      { a: 1 },
+      { a: 2 },
+      { a: 3 },
+      { a: 4 },
+    ]);
+    await writeConn!.close();
+    expect(insert.closed).toBe(true);
+  });
+
+  test("runs prepared writes through the queue", async () => {
+    db = await Database.create(":memory:", { writeQueue: true });
+    await db.exec("CREATE TABLE t (a INTEGER)");
+    const insert = await db.prepare("INSERT INTO t VALUES (?)");
+    const order: string[] = [];
+    let release = () => {};
+    const blocked = db.write(async () => {
+      order.push("write");
+      await new Promise<void>((resolve) => (release = resolve));
+    });
+    const inserted = insert.run(1).then(() => order.push("insert"));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(order).toEqual(["write"]);
+    release();
+    await Promise.all([blocked, inserted]);
+    expect(order).toEqual(["write", "insert"]);
+    expect(() => insert.iterate(2)).toThrow(
+      "Statement.iterateChunks: not supported for statements prepared with writeQueue"
+    );
+    await insert.finalize();
+    expect(await db.all("SELECT a FROM t")).toEqual([{ a: 1 }]);
+  });
+
+  test("sets session settings on the write connection too", async () => {
+    db = await Database.create(":memory:", { writeQueue: true });
+    await db.setSetting("search_path", "main");
+    expect(await db.getSetting("search_path")).toBe("main");
+    const [row] = await db.write((conn) =>
+      conn.all("SELECT current_setting('search_path') AS value")
+    );
+    expect(row.value).toBe("main");
+  });
+
+  test("rejects explicit transactions and temporary tables", async () => {
+    db = await Database.create(":memory:", { writeQueue: true });
+    await db.exec("CREATE TABLE t (a INTEGER)");
+    await expect(db.exec("BEGIN")).rejects.toThrow(
+      "Database.exec: transactions, SET, USE and temporary objects are not supported with writeQueue"
+    );
+    await expect(db.run("SET threads = 1")).rejects.toThrow(DuckDbAsyncError);
+    await expect(
+      db.exec("CREATE TEMP TABLE tmp (a INTEGER)")
+    ).rejects.toThrow(DuckDbAsyncError);
+    await expect(db.registerTable("scores", [{ a: 1 }])).rejects.toThrow(
+      "Database.registerTable: registered tables are not supported with writeQueue"
+    );
+
+    // a transaction inside write() commits or rolls back as a whole
+    await db.write((conn) =>
+      conn.transaction(async (tx) => {
+        await tx.run("INSERT INTO t VALUES (1)");
+        await tx.run("INSERT INTO t VALUES (2)");
+      })
+    );
+    await expect(
+      db.write((conn) =>
+        conn.transaction(async (tx) => {
+          await tx.run("INSERT INTO t VALUES (3)");
+          throw new Error("boom");
+        })
+      )
+    ).rejects.toThrow("boom");
+    expect(await db.all("SELECT a FROM t ORDER BY a")).toEqual([
+      { a: 1 },
+      { a: 2 },
+    ]);
+  });
+});